@@ -0,0 +1,247 @@
+import {
+  IDENTITY_ZOOM,
+  ZoomState,
+  Position,
+  changeScale,
+  pinchMove,
+  doubleTap,
+  zoomAround,
+  clampZoom,
+  fitContentSize,
+  panBounds,
+  rubberBand,
+  visibleTiles,
+} from '../src/ZoomEngine';
+
+const viewPort = {width: 400, height: 800};
+
+// 화면 좌표 = 화면 중앙 + translate + scale * (원래 좌표 - 화면 중앙)
+const toScreen = (zoom: ZoomState, point: Position): Position => ({
+  x:
+    viewPort.width / 2 +
+    zoom.translateX +
+    zoom.scale * (point.x - viewPort.width / 2),
+  y:
+    viewPort.height / 2 +
+    zoom.translateY +
+    zoom.scale * (point.y - viewPort.height / 2),
+});
+
+describe('pinch', () => {
+  it('keeps the focal point in place', () => {
+    const focal = {x: 100, y: 300};
+    const zoom = pinchMove(
+      IDENTITY_ZOOM,
+      {center: focal, distance: 100},
+      {center: focal, distance: 250},
+      viewPort,
+    );
+    expect(zoom.scale).toBeCloseTo(2.5);
+    const screen = toScreen(zoom, focal);
+    expect(screen.x).toBeCloseTo(focal.x);
+    expect(screen.y).toBeCloseTo(focal.y);
+  });
+
+  it('keeps the focal point in place when already zoomed', () => {
+    const start: ZoomState = {scale: 2, translateX: 50, translateY: -80};
+    const focal = {x: 300, y: 200};
+    const original = {
+      x:
+        (focal.x - viewPort.width / 2 - start.translateX) / start.scale +
+        viewPort.width / 2,
+      y:
+        (focal.y - viewPort.height / 2 - start.translateY) / start.scale +
+        viewPort.height / 2,
+    };
+    const zoom = pinchMove(
+      start,
+      {center: focal, distance: 200},
+      {center: focal, distance: 100},
+      viewPort,
+    );
+    expect(zoom.scale).toBeCloseTo(1);
+    const screen = toScreen(zoom, original);
+    expect(screen.x).toBeCloseTo(focal.x);
+    expect(screen.y).toBeCloseTo(focal.y);
+  });
+
+  it('follows the moving center of the fingers', () => {
+    const zoom = pinchMove(
+      IDENTITY_ZOOM,
+      {center: {x: 200, y: 400}, distance: 100},
+      {center: {x: 230, y: 380}, distance: 100},
+      viewPort,
+    );
+    expect(zoom).toEqual({scale: 1, translateX: 30, translateY: -20});
+  });
+
+  it('does not change the given state', () => {
+    const start: ZoomState = {scale: 2, translateX: 10, translateY: 10};
+    changeScale(start, {x: 5, y: 5}, 1.5, {x: 20, y: 20});
+    expect(start).toEqual({scale: 2, translateX: 10, translateY: 10});
+  });
+});
+
+describe('double tap', () => {
+  it('zooms in around the tapped point', () => {
+    const point = {x: 50, y: 600};
+    const zoom = doubleTap(IDENTITY_ZOOM, point, viewPort, 2);
+    expect(zoom.scale).toBe(2);
+    const screen = toScreen(zoom, point);
+    expect(screen.x).toBeCloseTo(point.x);
+    expect(screen.y).toBeCloseTo(point.y);
+  });
+
+  it('resets when already zoomed', () => {
+    const zoom = doubleTap(
+      {scale: 3, translateX: 40, translateY: 40},
+      {x: 0, y: 0},
+      viewPort,
+      2,
+    );
+    expect(zoom).toEqual(IDENTITY_ZOOM);
+  });
+
+  it('zooms to an absolute scale around the center by default', () => {
+    const zoom = zoomAround(
+      {scale: 2, translateX: 0, translateY: 0},
+      4,
+      undefined,
+      viewPort,
+    );
+    expect(zoom).toEqual({scale: 4, translateX: 0, translateY: 0});
+  });
+});
+
+describe('clamping', () => {
+  const limits = {minScale: 0.5, maxScale: 5};
+
+  it('fits the content inside the view', () => {
+    expect(fitContentSize({width: 800, height: 400}, viewPort)).toEqual({
+      width: 400,
+      height: 200,
+    });
+    expect(fitContentSize(undefined, viewPort)).toEqual(viewPort);
+  });
+
+  it('stops panning at the edges of the content', () => {
+    const fitted = {width: 400, height: 200};
+    expect(panBounds(fitted, viewPort, 3)).toEqual({x: 400, y: 0});
+    const zoom = clampZoom(
+      {scale: 3, translateX: 1000, translateY: -50},
+      limits,
+      fitted,
+      viewPort,
+    );
+    expect(zoom.scale).toBe(3);
+    expect(zoom.translateX).toBe(400);
+    expect(zoom.translateY).toBeCloseTo(0);
+  });
+
+  it('limits the scale', () => {
+    expect(
+      clampZoom(
+        {scale: 10, translateX: 0, translateY: 0},
+        limits,
+        viewPort,
+        viewPort,
+      ).scale,
+    ).toBe(5);
+    expect(
+      clampZoom(
+        {scale: 0.1, translateX: 0, translateY: 0},
+        limits,
+        viewPort,
+        viewPort,
+      ).scale,
+    ).toBe(0.5);
+  });
+
+  it('keeps the translation while rubber banding', () => {
+    const zoom = clampZoom(
+      {scale: 2, translateX: 900, translateY: 0},
+      limits,
+      viewPort,
+      viewPort,
+      false,
+    );
+    expect(zoom).toEqual({scale: 2, translateX: 900, translateY: 0});
+  });
+
+  it('resists more the further it is dragged out', () => {
+    const near = rubberBand(10, 10, 400);
+    const far = rubberBand(10, 200, 400);
+    expect(near).toBeLessThan(10);
+    expect(far).toBeLessThan(near);
+  });
+});
+
+describe('tiles', () => {
+  // level 3: 4000x2000, level 2: 2000x1000, level 1: 1000x500, level 0: 500x250
+  const source = {
+    urlTemplate: 'https://example.com/{level}/{x}_{y}.jpg',
+    width: 4000,
+    height: 2000,
+    tileSize: 256,
+    levels: 4,
+  };
+  const fitted = fitContentSize(source, viewPort);
+  const levelOf = (key: string) => key.split('/')[0];
+
+  it('is empty when not zoomed', () => {
+    expect(visibleTiles(source, IDENTITY_ZOOM, fitted, viewPort, 1)).toEqual(
+      [],
+    );
+  });
+
+  it('picks the smallest level not smaller than the screen', () => {
+    // 800px 너비로 그려지므로 1000px인 level 1
+    const zoom = {scale: 2, translateX: 0, translateY: 0};
+    const tiles = visibleTiles(source, zoom, fitted, viewPort, 1);
+    expect(tiles.length).toBeGreaterThan(0);
+    tiles.forEach((tile) => expect(levelOf(tile.key)).toBe('1'));
+    // 픽셀 밀도가 3이면 2400px이 필요하므로 원본
+    const dense = visibleTiles(source, zoom, fitted, viewPort, 3);
+    dense.forEach((tile) => expect(levelOf(tile.key)).toBe('3'));
+  });
+
+  it('returns only the visible tiles and trims the edge tiles', () => {
+    // 오른쪽 끝까지 이동: 이미지는 -400 ~ 400, 조각 하나는 204.8px
+    const zoom = {scale: 2, translateX: -200, translateY: 0};
+    const tiles = visibleTiles(source, zoom, fitted, viewPort, 1);
+    expect(tiles.map((tile) => tile.key)).toEqual([
+      '1/1_0',
+      '1/2_0',
+      '1/3_0',
+      '1/1_1',
+      '1/2_1',
+      '1/3_1',
+    ]);
+    const last = tiles[tiles.length - 1];
+    expect(last.uri).toBe('https://example.com/1/3_1.jpg');
+    expect(last.left + last.width).toBeCloseTo(viewPort.width);
+    // 마지막 행은 500 - 256 = 244px
+    expect(last.height).toBeCloseTo(244 * 0.8);
+    expect(last.top + last.height).toBeCloseTo(600);
+  });
+});
+
+describe('reset', () => {
+  it('returns to the identity from any state', () => {
+    const zoomed = pinchMove(
+      IDENTITY_ZOOM,
+      {center: {x: 10, y: 10}, distance: 10},
+      {center: {x: 10, y: 10}, distance: 30},
+      viewPort,
+    );
+    expect(doubleTap(zoomed, {x: 0, y: 0}, viewPort, 2)).toEqual(IDENTITY_ZOOM);
+    expect(
+      clampZoom(
+        IDENTITY_ZOOM,
+        {minScale: 0.5, maxScale: 5},
+        viewPort,
+        viewPort,
+      ),
+    ).toEqual(IDENTITY_ZOOM);
+  });
+});
@@ -0,0 +1,134 @@
+import * as React from 'react';
+import {
+  View,
+  Image,
+  StyleSheet,
+  ActivityIndicator,
+  Text,
+  TouchableOpacity,
+  ImageSourcePropType,
+} from 'react-native';
+
+export type ProgressiveImageProps = {
+  source: ImageSourcePropType;
+  thumbnailSource?: ImageSourcePropType;
+  renderLoading?: () => React.ReactElement | null;
+  renderError?: (retry: () => void) => React.ReactElement | null;
+};
+
+type ProgressiveImageState = {
+  source: ImageSourcePropType;
+  loaded: boolean;
+  failed: boolean;
+  attempt: number;
+};
+
+/**
+ * 불러오는 동안과 실패했을 때를 처리하는 Image 입니다.
+ * thumbnailSource가 있으면 원본을 불러오는 동안 먼저 보여줍니다.
+ * 불러오는 중에는 renderLoading(없으면 ActivityIndicator)을,
+ * 실패하면 renderError(없으면 다시 시도 버튼)를 위에 겹쳐 그립니다.
+ * retry는 Image를 새로 만들어서 다시 불러옵니다.
+ */
+export default class ProgressiveImage extends React.PureComponent<
+  ProgressiveImageProps,
+  ProgressiveImageState
+> {
+  constructor(props: ProgressiveImageProps) {
+    super(props);
+    this.state = {
+      source: props.source,
+      loaded: false,
+      failed: false,
+      attempt: 0,
+    };
+  }
+
+  static getDerivedStateFromProps(
+    props: ProgressiveImageProps,
+    state: ProgressiveImageState,
+  ): Partial<ProgressiveImageState> | null {
+    // source가 바뀌면 처음부터 다시 불러옴
+    if (props.source !== state.source) {
+      return {source: props.source, loaded: false, failed: false};
+    }
+    return null;
+  }
+
+  retry() {
+    this.setState({
+      ...this.state,
+      loaded: false,
+      failed: false,
+      attempt: this.state.attempt + 1,
+    });
+  }
+
+  renderStatus() {
+    if (this.state.failed) {
+      const retry = () => this.retry();
+      if (this.props.renderError !== undefined) {
+        return this.props.renderError(retry);
+      }
+      return (
+        <TouchableOpacity onPress={retry}>
+          <Text style={styles.retry}>Retry</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (!this.state.loaded) {
+      if (this.props.renderLoading !== undefined) {
+        return this.props.renderLoading();
+      }
+      return <ActivityIndicator />;
+    }
+    return null;
+  }
+
+  render() {
+    const showThumbnail =
+      this.props.thumbnailSource !== undefined && !this.state.loaded;
+    return (
+      <View style={styles.fill}>
+        {showThumbnail ? (
+          <Image
+            source={this.props.thumbnailSource!}
+            style={[StyleSheet.absoluteFill, styles.contain]}
+          />
+        ) : null}
+        {this.state.failed ? null : (
+          <Image
+            key={this.state.attempt}
+            source={this.props.source}
+            style={[styles.fill, styles.contain]}
+            onLoad={() => this.setState({...this.state, loaded: true})}
+            onError={() => this.setState({...this.state, failed: true})}
+          />
+        )}
+        <View pointerEvents="box-none" style={styles.status}>
+          {this.renderStatus()}
+        </View>
+      </View>
+    );
+  }
+}
+
+const styles = StyleSheet.create({
+  fill: {
+    width: '100%',
+    height: '100%',
+  },
+  contain: {
+    resizeMode: 'contain',
+  },
+  status: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  retry: {
+    color: 'white',
+    fontSize: 14,
+    padding: 16,
+  },
+});
@@ -0,0 +1,452 @@
+/**
+ * 확대/이동 계산만 모아둔 모듈입니다.
+ * React, Animated에 의존하지 않고, 현재 상태와 터치 정보를 받아 다음 상태를 돌려줍니다.
+ * 넘겨받은 값은 건드리지 않습니다.
+ *
+ * 좌표계: 화면 좌표 = 화면 중앙 + translate + scale * (원래 좌표 - 화면 중앙)
+ */
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * 두손가락 터치 정보입니다. center는 두 손가락의 중점, distance는 두 손가락 사이 거리입니다.
+ */
+export interface PinchInfo {
+  center: Position;
+  distance: number;
+}
+
+/**
+ * 현재 줌 상태입니다.
+ * scale은 배율, translateX/Y는 화면 중앙 기준 이동량입니다.
+ */
+export type ZoomState = {
+  scale: number;
+  translateX: number;
+  translateY: number;
+};
+
+/**
+ * 배율 범위입니다.
+ */
+export type ZoomLimits = {
+  minScale: number;
+  maxScale: number;
+};
+
+/**
+ * 확대하지 않은 상태입니다.
+ */
+export const IDENTITY_ZOOM: ZoomState = {
+  scale: 1,
+  translateX: 0,
+  translateY: 0,
+};
+
+const DOUBLE_TOUCH_THRES = 300;
+const MAX_ZOOM = 5;
+const DEFAULT_ZOOM = 2;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM_RESET = 1.3;
+const MIN_ZOOM_RESET = 0.0;
+const SOFT_ANIMIATION_TIME = 300;
+const RUBBER_BAND_RESISTANCE = 4;
+
+/**
+ * 관성 이동의 감속 비율입니다. Animated.decay의 deceleration으로 씁니다.
+ */
+export const DECELERATION = 0.998;
+/**
+ * 이보다 빠르게 밀고 손을 떼야 관성으로 미끄러집니다. (px/ms)
+ */
+export const MIN_FLING_VELOCITY = 0.1;
+
+/**
+ * 확대 동작 설정입니다.
+ * enabled: false면 해당 이미지는 확대되지 않습니다.
+ * minScale/maxScale: 확대 배율 범위
+ * doubleTapScale: 두번 터치했을 때의 배율
+ * minResetScale/maxResetScale: 손을 뗐을 때 이 범위 안의 배율이면 원래대로 돌아갑니다.
+ * doubleTapDelay: 두번 터치로 인정하는 시간 (ms)
+ * animationDuration: 두번 터치, 원래대로 돌아가기 등의 애니메이션 시간 (ms)
+ * momentumEnabled: 확대된 이미지를 밀고 손을 떼면 관성으로 미끄러집니다.
+ * bounceEnabled: 이동 범위를 벗어나게 끌 수 있고, 손을 떼면 튕겨 돌아옵니다.
+ * pageOnEdgeSwipe: 확대된 이미지를 가장자리 너머로 끌면 옆 이미지로 넘어갑니다.
+ */
+export type ZoomConfig = {
+  enabled: boolean;
+  minScale: number;
+  maxScale: number;
+  doubleTapScale: number;
+  minResetScale: number;
+  maxResetScale: number;
+  doubleTapDelay: number;
+  animationDuration: number;
+  pinchEnabled: boolean;
+  doubleTapEnabled: boolean;
+  momentumEnabled: boolean;
+  bounceEnabled: boolean;
+  pageOnEdgeSwipe: boolean;
+};
+
+export const DEFAULT_ZOOM_CONFIG: ZoomConfig = {
+  enabled: true,
+  minScale: MIN_ZOOM,
+  maxScale: MAX_ZOOM,
+  doubleTapScale: DEFAULT_ZOOM,
+  minResetScale: MIN_ZOOM_RESET,
+  maxResetScale: MAX_ZOOM_RESET,
+  doubleTapDelay: DOUBLE_TOUCH_THRES,
+  animationDuration: SOFT_ANIMIATION_TIME,
+  pinchEnabled: true,
+  doubleTapEnabled: true,
+  momentumEnabled: true,
+  bounceEnabled: true,
+  pageOnEdgeSwipe: false,
+};
+
+/**
+ * velocity로 밀고 손을 뗐을 때 관성으로 미끄러져 멈추는 위치입니다. (Animated.decay 기준)
+ * @param from 손을 뗀 위치
+ * @param velocity 손을 뗄 때의 속도 (px/ms)
+ */
+export const momentumTarget = (
+  from: Position,
+  velocity: Position,
+): Position => {
+  return {
+    x: from.x + velocity.x / (1 - DECELERATION),
+    y: from.y + velocity.y / (1 - DECELERATION),
+  };
+};
+
+/**
+ * 범위를 벗어난 이동에 저항을 줍니다. 멀리 벗어날수록 덜 움직입니다.
+ * @param delta 이번에 움직인 양
+ * @param overshoot 이미 범위를 벗어난 양
+ * @param dimension 화면 길이
+ */
+export const rubberBand = (
+  delta: number,
+  overshoot: number,
+  dimension: number,
+): number => {
+  return (delta * dimension) / (dimension + overshoot * RUBBER_BAND_RESISTANCE);
+};
+
+/**
+ * 좌표를 -bound ~ bound 범위로 맞춥니다. 원본은 건드리지 않습니다.
+ * @param input
+ * @param bound
+ */
+export const positionClamp = (input: Position, bound: Position): Position => {
+  return {
+    x: Math.max(Math.min(input.x, bound.x), -bound.x),
+    y: Math.max(Math.min(input.y, bound.y), -bound.y),
+  };
+};
+
+/**
+ * 좌표에 상수를 곱합니다. 원본은 건드리지 않습니다.
+ * @param input
+ * @param value
+ */
+export const positionMult = (input: Position, value: number): Position => {
+  return {
+    x: input.x * value,
+    y: input.y * value,
+  };
+};
+
+/**
+ * 화면 좌표를 화면 중앙 기준 좌표로 바꿉니다.
+ * @param pos
+ * @param viewPort
+ */
+export const centerDisposition = (pos: Position, viewPort: Size): Position => {
+  return {
+    x: pos.x - viewPort.width / 2,
+    y: pos.y - viewPort.height / 2,
+  };
+};
+
+/**
+ * 배율 1일 때 화면에 실제로 그려지는 크기입니다.
+ * resizeMode "contain" 기준이며, 원본 크기를 모르면 화면 크기로 봅니다.
+ * @param content 원본 크기
+ * @param viewPort
+ */
+export const fitContentSize = (
+  content: Size | undefined,
+  viewPort: Size,
+): Size => {
+  if (content === undefined || content.width <= 0 || content.height <= 0) {
+    return {...viewPort};
+  }
+  const ratio = Math.min(
+    viewPort.width / content.width,
+    viewPort.height / content.height,
+  );
+  return {
+    width: content.width * ratio,
+    height: content.height * ratio,
+  };
+};
+
+/**
+ * scale 배율일 때 이동할 수 있는 최대 거리입니다. (화면 중앙 기준 양방향)
+ * 확대된 이미지의 가장자리가 화면 가장자리에서 멈추도록 합니다.
+ * 화면보다 작은 축은 가운데에 고정됩니다.
+ * @param fitted fitContentSize로 구한 크기
+ * @param viewPort
+ * @param scale
+ */
+export const panBounds = (
+  fitted: Size,
+  viewPort: Size,
+  scale: number,
+): Position => {
+  return {
+    x: Math.max(fitted.width * scale - viewPort.width, 0) / 2,
+    y: Math.max(fitted.height * scale - viewPort.height, 0) / 2,
+  };
+};
+
+/**
+ *
+ * @param zoom 현재 상태
+ * @param updateDisposition 현재 화면을 얼마나 이동시킬지 (보통 next - prev)
+ * @param updateScale 현재 기준 확대/축소 비율
+ * @param updateCenter 혹시 기준점이 변경되었다면 기입 (화면 중앙 기준)
+ */
+export const changeScale = (
+  zoom: ZoomState,
+  updateDisposition: Position,
+  updateScale: number,
+  updateCenter?: Position,
+): ZoomState => {
+  /**
+   * 기본 확대는 정 중앙에서 일어납니다.
+   * 기준점이 중앙에서 V 만큼 벗어나 있다면, 확대로 V가 ( 1 - updateScale ) 배 만큼
+   * 밀려나는 것을 이동량으로 되돌려서 기준점이 제자리에 있게 합니다.
+   */
+  const centerToCenterDisposition =
+    updateCenter !== undefined
+      ? {
+          x: updateCenter.x - zoom.translateX,
+          y: updateCenter.y - zoom.translateY,
+        }
+      : {x: 0, y: 0};
+  const newCenterDisposition = positionMult(
+    centerToCenterDisposition,
+    1 - updateScale,
+  );
+  return {
+    scale: zoom.scale * updateScale,
+    translateX: zoom.translateX + updateDisposition.x + newCenterDisposition.x,
+    translateY: zoom.translateY + updateDisposition.y + newCenterDisposition.y,
+  };
+};
+
+/**
+ * 두손가락 이동입니다. 이전 중점을 기준으로 거리 비율만큼 확대하고, 중점이 움직인 만큼 이동합니다.
+ * @param zoom
+ * @param prev 이전 터치
+ * @param next 이번 터치
+ * @param viewPort
+ */
+export const pinchMove = (
+  zoom: ZoomState,
+  prev: PinchInfo,
+  next: PinchInfo,
+  viewPort: Size,
+): ZoomState => {
+  const disposition = {
+    x: next.center.x - prev.center.x,
+    y: next.center.y - prev.center.y,
+  };
+  return changeScale(
+    zoom,
+    disposition,
+    next.distance / prev.distance,
+    centerDisposition(prev.center, viewPort),
+  );
+};
+
+/**
+ * focalPoint를 기준으로 scale 배율이 되도록 확대/축소합니다.
+ * @param zoom
+ * @param scale 원본 기준 배율
+ * @param focalPoint 확대 기준점 (화면 좌표). 없으면 현재 화면 중앙입니다.
+ * @param viewPort
+ */
+export const zoomAround = (
+  zoom: ZoomState,
+  scale: number,
+  focalPoint: Position | undefined,
+  viewPort: Size,
+): ZoomState => {
+  const center =
+    focalPoint !== undefined
+      ? centerDisposition(focalPoint, viewPort)
+      : {x: 0, y: 0};
+  return changeScale(zoom, {x: 0, y: 0}, scale / zoom.scale, center);
+};
+
+/**
+ * 두번 터치입니다. 확대되어 있지 않으면 터치한 곳을 기준으로 scale 배율로 확대하고,
+ * 확대되어 있으면 원래대로 돌아갑니다.
+ * @param zoom
+ * @param point 터치한 곳 (화면 좌표)
+ * @param viewPort
+ * @param scale
+ */
+export const doubleTap = (
+  zoom: ZoomState,
+  point: Position,
+  viewPort: Size,
+  scale: number,
+): ZoomState => {
+  if (zoom.scale !== 1) {
+    return {...IDENTITY_ZOOM};
+  }
+  return zoomAround(zoom, scale, point, viewPort);
+};
+
+/**
+ * 배율을 limits 범위로 맞추고, 이동량을 그 배율의 이동 범위로 맞춥니다.
+ * @param zoom
+ * @param limits
+ * @param fitted fitContentSize로 구한 크기
+ * @param viewPort
+ * @param clampTransform false면 이동 범위를 벗어나도 그대로 둡니다. (rubber band 중)
+ */
+export const clampZoom = (
+  zoom: ZoomState,
+  limits: ZoomLimits,
+  fitted: Size,
+  viewPort: Size,
+  clampTransform: boolean = true,
+): ZoomState => {
+  const scale = Math.max(
+    Math.min(zoom.scale, limits.maxScale),
+    limits.minScale,
+  );
+  if (!clampTransform) {
+    return {...zoom, scale};
+  }
+  const translate = positionClamp(
+    {x: zoom.translateX, y: zoom.translateY},
+    panBounds(fitted, viewPort, scale),
+  );
+  return {
+    scale,
+    translateX: translate.x,
+    translateY: translate.y,
+  };
+};
+
+/**
+ * 아주 큰 이미지를 조각(tile)으로 나눠 둔 피라미드입니다.
+ * level은 0부터 levels - 1까지 있고, 마지막 level이 원본 크기(width, height)이며
+ * 한단계 내려갈 때마다 가로세로가 절반이 됩니다. (Deep Zoom 방식)
+ * urlTemplate의 {level}, {x}, {y}는 해당 조각의 level, 열, 행으로 바뀝니다.
+ */
+export type TileSource = {
+  urlTemplate: string;
+  width: number;
+  height: number;
+  tileSize: number;
+  levels: number;
+};
+
+/**
+ * 화면에 그릴 조각 하나입니다. 위치와 크기는 화면 좌표입니다.
+ */
+export type Tile = {
+  key: string;
+  uri: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * 현재 배율과 이동량에서 화면에 보이는 조각입니다.
+ * 화면에 그려지는 크기(픽셀 밀도 포함)보다 크거나 같은 가장 작은 level을 고릅니다.
+ * 확대하지 않았으면 비어 있습니다.
+ * @param source
+ * @param zoom
+ * @param fitted fitContentSize로 구한 크기
+ * @param viewPort
+ * @param pixelRatio 화면의 픽셀 밀도 (PixelRatio.get())
+ */
+export const visibleTiles = (
+  source: TileSource,
+  zoom: ZoomState,
+  fitted: Size,
+  viewPort: Size,
+  pixelRatio: number,
+): Tile[] => {
+  if (zoom.scale <= 1) {
+    return [];
+  }
+  const displayWidth = fitted.width * zoom.scale;
+  const displayHeight = fitted.height * zoom.scale;
+  const imageLeft = viewPort.width / 2 + zoom.translateX - displayWidth / 2;
+  const imageTop = viewPort.height / 2 + zoom.translateY - displayHeight / 2;
+
+  let level = source.levels - 1;
+  while (
+    level > 0 &&
+    Math.ceil(source.width / Math.pow(2, source.levels - level)) >=
+      displayWidth * pixelRatio
+  ) {
+    level--;
+  }
+  const levelScale = Math.pow(2, source.levels - 1 - level);
+  const levelWidth = Math.ceil(source.width / levelScale);
+  const levelHeight = Math.ceil(source.height / levelScale);
+  const ratio = displayWidth / levelWidth;
+  const tileLength = source.tileSize * ratio;
+
+  const firstX = Math.max(Math.floor(-imageLeft / tileLength), 0);
+  const lastX = Math.min(
+    Math.ceil((viewPort.width - imageLeft) / tileLength),
+    Math.ceil(levelWidth / source.tileSize),
+  );
+  const firstY = Math.max(Math.floor(-imageTop / tileLength), 0);
+  const lastY = Math.min(
+    Math.ceil((viewPort.height - imageTop) / tileLength),
+    Math.ceil(levelHeight / source.tileSize),
+  );
+
+  const tiles: Tile[] = [];
+  for (let y = firstY; y < lastY; y++) {
+    for (let x = firstX; x < lastX; x++) {
+      tiles.push({
+        key: `${level}/${x}_${y}`,
+        uri: source.urlTemplate
+          .replace('{level}', level.toString())
+          .replace('{x}', x.toString())
+          .replace('{y}', y.toString()),
+        left: imageLeft + x * tileLength,
+        top: imageTop + y * tileLength,
+        width:
+          Math.min(source.tileSize, levelWidth - x * source.tileSize) * ratio,
+        height:
+          Math.min(source.tileSize, levelHeight - y * source.tileSize) * ratio,
+      });
+    }
+  }
+  return tiles;
+};
@@ -0,0 +1,1116 @@
+import * as React from 'react';
+import {
+  View,
+  Animated,
+  GestureResponderHandlers,
+  GestureResponderEvent,
+  NativeTouchEvent,
+  StyleProp,
+  StyleSheet,
+  ViewProps,
+  ViewStyle,
+} from 'react-native';
+import {createRef, RefObject} from 'react';
+import {
+  Position,
+  Size,
+  PinchInfo,
+  ZoomState,
+  ZoomConfig,
+  IDENTITY_ZOOM,
+  DEFAULT_ZOOM_CONFIG,
+  DECELERATION,
+  MIN_FLING_VELOCITY,
+  momentumTarget,
+  rubberBand,
+  positionClamp,
+  fitContentSize,
+  panBounds,
+  pinchMove,
+  doubleTap,
+  zoomAround,
+  clampZoom,
+} from './ZoomEngine';
+
+/**
+ * 확대 애니메이션 값입니다.
+ * 애니메이션 프레임마다 따라가야 하는 곳(미니맵 등)에서 씁니다.
+ */
+export type AnimatedZoom = {
+  scale: Animated.Value;
+  translate: Animated.ValueXY;
+};
+
+/**
+ * width, height를 주지 않으면 부모가 정해준 크기를 씁니다.
+ * contentSize는 child의 원본 크기이며, 이동 범위 계산에 씁니다. 없으면 view 크기로 봅니다.
+ * child는 resizeMode "contain" 처럼 가운데에 맞춰 그려져야 합니다.
+ * animatedZoom을 주면 직접 만든 값 대신 이 값을 움직이고 그립니다.
+ * initialZoom은 처음 그릴 때(animatedZoom을 주면 그 값이 바뀔 때마다) 이어받는 확대 상태이며, 이때는 onZoomStart 등이 불리지 않습니다.
+ * zoomConfig.enabled가 false면 확대하지 않으므로, 다른 곳에서 움직이는 animatedZoom을 그리기만 할 때 씁니다.
+ * transformChildren이 false면 child는 그대로 두고 제스쳐만 받습니다. (SwiperView처럼 item마다 따로 그리는 경우)
+ * onZoomSettle은 애니메이션과 관성 이동이 끝나서 멈췄을 때 불립니다.
+ * onTap은 두번 터치가 아님이 확인된 뒤에, onDoubleTap은 기본 확대보다 먼저 불립니다. 좌표는 view 기준입니다.
+ * onEdgeOverflow는 zoomConfig.pageOnEdgeSwipe일 때 확대된 child의 가장자리 너머로 끈 거리를 축마다 넘겨줍니다.
+ * 받아들인 축은 그 값을, 아니면 0을 돌려줍니다. 받아들인 만큼은 이동하지 않고, 손을 떼면 onEdgeOverflowEnd가 불립니다.
+ * shouldStartDrag가 true를 돌려주면 확대되지 않은 상태의 한손가락 끌기를 부모가 가져갑니다. (끌어서 닫기 등)
+ * 이후에는 onDragMove로 시작점부터 움직인 거리를, 손을 떼면 onDragEnd로 속도를 넘겨줍니다.
+ */
+export type ZoomableViewProps = {
+  width?: number;
+  height?: number;
+  contentSize?: Size;
+  zoomConfig?: Partial<ZoomConfig>;
+  animatedZoom?: AnimatedZoom;
+  initialZoom?: ZoomState;
+  transformChildren?: boolean;
+  onZoomStart?: () => void;
+  onZoomChange?: (zoom: ZoomState) => void;
+  onZoomEnd?: () => void;
+  onZoomSettle?: () => void;
+  onTap?: (point: Position) => void;
+  onDoubleTap?: (point: Position) => void;
+  onLongPress?: (point: Position) => void;
+  onEdgeOverflow?: (overflow: Position) => Position;
+  onEdgeOverflowEnd?: (overflow: Position, velocity: Position) => void;
+  shouldStartDrag?: (move: Position) => boolean;
+  onDragMove?: (move: Position) => void;
+  onDragEnd?: (velocity: Position) => void;
+  style?: StyleProp<ViewStyle>;
+  children?: React.ReactNode;
+};
+
+type ZoomableViewState = {
+  layout: Size | null;
+};
+
+/**
+ * 손가락 하나 혹은 두개로 움직이고 있는 상태입니다.
+ * pinch가 null이면 한손가락 이동입니다.
+ */
+type TouchState = {
+  last: Position;
+  pinch: PinchInfo | null;
+  timestamp: number;
+};
+
+type PagePoint = {
+  pageX: number;
+  pageY: number;
+};
+
+/**
+ * react-native-web의 마우스 이벤트 중 쓰는 부분입니다.
+ */
+type WebMouseEvent = PagePoint & {
+  button: number;
+  timeStamp: number;
+};
+
+const VELOCITY_TIMEOUT = 100;
+const TAP_SLOP = 10;
+const TAP_DURATION = 300;
+const LONG_PRESS_DURATION = 500;
+/**
+ * 터치 뒤에 브라우저가 흉내내서 보내는 마우스 이벤트는 이 시간(ms) 동안 무시합니다.
+ */
+const EMULATED_MOUSE_DELAY = 1000;
+const WHEEL_ZOOM_SPEED = 0.002;
+const TRACKPAD_ZOOM_SPEED = 0.01;
+const WHEEL_LINE_HEIGHT = 16;
+const AXES: ('x' | 'y')[] = ['x', 'y'];
+
+/**
+ * child 하나를 두손가락 확대, 이동, 두번 터치 확대할 수 있게 감쌉니다.
+ * 계산은 ZoomEngine에서 하고, 여기서는 터치와 애니메이션만 다룹니다.
+ * 확대 중이거나 두손가락 터치면 터치를 가져가고, 아니면 부모(pager 등)가 가져갈 수 있게 둡니다.
+ */
+export default class ZoomableView extends React.PureComponent<
+  ZoomableViewProps,
+  ZoomableViewState
+> {
+  private zoom: ZoomState;
+  private ownZoom: AnimatedZoom;
+  private animating: boolean;
+  private rootView: RefObject<View>;
+  private absolutePosition: Position;
+  private lastTap: number;
+  private touch: TouchState | null;
+  private velocity: Position;
+  /**
+   * 가장자리 너머로 끌어서 onEdgeOverflow가 받아들인 거리입니다.
+   * 0이 아닌 축은 이동하지 않고 끈 만큼을 모두 넘겨줍니다.
+   */
+  private edgeOverflow: Position;
+  /**
+   * 한손가락 터치의 시작 위치(page 좌표)와, 부모가 끌기를 가져갔는지 여부입니다.
+   */
+  private dragStart: Position | null;
+  private dragging: boolean;
+  /**
+   * 한번 터치 감지용입니다.
+   * tapStart는 한손가락 터치 시작 위치(page 좌표)와 시각이고,
+   * tapTimer는 두번 터치가 아님이 확인될 때까지 기다리는 타이머입니다.
+   * lastTouch는 마지막 터치 이벤트의 시각이며, 흉내낸 마우스 이벤트를 걸러내는 데 씁니다.
+   */
+  private tapStart: (Position & {timestamp: number}) | null;
+  private lastTouch: number;
+  private tapTimer: ReturnType<typeof setTimeout> | null;
+  private longPressTimer: ReturnType<typeof setTimeout> | null;
+  private gestureHandlers: GestureResponderHandlers;
+  /**
+   * 누가 터치를 가져가든 상관없이 받는 핸들러입니다. 한번 터치와 길게 누르기를 봅니다.
+   */
+  private touchHandlers: Required<
+    Pick<
+      ViewProps,
+      'onTouchStart' | 'onTouchMove' | 'onTouchEnd' | 'onTouchCancel'
+    >
+  >;
+  /**
+   * react-native-web에서만 불리는 이벤트입니다.
+   * 마우스는 touch 이벤트가 없으므로 왼쪽 버튼으로 한번 누르기와 길게 누르기를 봅니다.
+   */
+  private mouseHandlers: {
+    onMouseDown: (event: WebMouseEvent) => void;
+    onMouseMove: (event: WebMouseEvent) => void;
+    onMouseUp: (event: WebMouseEvent) => void;
+  };
+  /**
+   * root의 DOM node에 직접 다는 휠 listener입니다. (react-native-web)
+   * React의 onWheel은 passive라서 preventDefault로 페이지 스크롤을 막을 수 없습니다.
+   */
+  private wheelListener: (event: WheelEvent) => void;
+
+  constructor(props: ZoomableViewProps) {
+    super(props);
+    this.state = {
+      layout: null,
+    };
+    this.zoom = {...(props.initialZoom ?? IDENTITY_ZOOM)};
+    this.ownZoom = {
+      scale: new Animated.Value(this.zoom.scale),
+      translate: new Animated.ValueXY({
+        x: this.zoom.translateX,
+        y: this.zoom.translateY,
+      }),
+    };
+    this.animating = false;
+    this.rootView = createRef();
+    this.absolutePosition = {x: 0, y: 0};
+    this.lastTap = 0;
+    this.touch = null;
+    this.velocity = {x: 0, y: 0};
+    this.edgeOverflow = {x: 0, y: 0};
+    this.dragStart = null;
+    this.dragging = false;
+    this.tapStart = null;
+    this.lastTouch = -EMULATED_MOUSE_DELAY;
+    this.tapTimer = null;
+    this.longPressTimer = null;
+
+    this.gestureHandlers = {
+      onStartShouldSetResponderCapture: (event) => {
+        this.dragStart =
+          event.nativeEvent.touches.length === 1
+            ? {x: event.nativeEvent.pageX, y: event.nativeEvent.pageY}
+            : null;
+        return this.shouldCapture(event);
+      },
+      onMoveShouldSetResponderCapture: (event) => {
+        if (this.shouldStartDrag(event)) {
+          this.dragging = true;
+          return true;
+        }
+        return this.shouldCapture(event);
+      },
+      onStartShouldSetResponder: (event) => {
+        // 가져가지 않는 터치도 두번 터치인지는 봐야 함
+        if (event.nativeEvent.touches.length === 1) {
+          this.doCheckDoubleTap(event);
+        }
+        return this.shouldCapture(event);
+      },
+      onMoveShouldSetResponder: (event) => this.shouldCapture(event),
+      onResponderGrant: (event) => {
+        this.velocity = {x: 0, y: 0};
+        this.doTrack(event);
+      },
+      onResponderStart: (event) => {
+        // 관성 이동 중에 다시 터치하면 그 자리에서 멈춤
+        this.stopMomentum();
+        this.doTrack(event);
+        if (event.nativeEvent.touches.length === 1) {
+          this.doCheckDoubleTap(event);
+        }
+      },
+      onResponderMove: (event) => this.onMove(event),
+      onResponderRelease: (event) => this.onRelease(event, true),
+      onResponderTerminate: (event) => this.onRelease(event, false),
+      onResponderReject: () => {
+        this.dragging = false;
+      },
+      // 확대하지 않았으면 부모(pager 등)가 터치를 가져갈 수 있음
+      onResponderTerminationRequest: () =>
+        !this.isZoomed() &&
+        !this.dragging &&
+        (this.touch === null || this.touch.pinch === null),
+    };
+
+    this.touchHandlers = {
+      onTouchStart: (event) => {
+        this.lastTouch = event.timeStamp;
+        this.doTapStart(
+          event.nativeEvent,
+          event.timeStamp,
+          event.nativeEvent.touches.length === 1,
+        );
+      },
+      onTouchMove: (event) => {
+        this.lastTouch = event.timeStamp;
+        this.doTapMove(event.nativeEvent);
+      },
+      onTouchEnd: (event) => {
+        this.lastTouch = event.timeStamp;
+        if (event.nativeEvent.touches.length === 0) {
+          this.doCheckTap(event.nativeEvent, event.timeStamp);
+        }
+      },
+      onTouchCancel: (event) => {
+        this.lastTouch = event.timeStamp;
+        this.tapStart = null;
+        this.doClearLongPress();
+      },
+    };
+
+    this.mouseHandlers = {
+      onMouseDown: (event) => {
+        if (event.button === 0 && !this.isEmulatedMouse(event)) {
+          this.doTapStart(event, event.timeStamp, true);
+        }
+      },
+      onMouseMove: (event) => {
+        if (!this.isEmulatedMouse(event)) {
+          this.doTapMove(event);
+        }
+      },
+      onMouseUp: (event) => {
+        if (event.button === 0 && !this.isEmulatedMouse(event)) {
+          this.doCheckTap(event, event.timeStamp);
+        }
+      },
+    };
+    this.wheelListener = (event) => this.doWheelZoom(event);
+  }
+
+  config(): ZoomConfig {
+    return {
+      ...DEFAULT_ZOOM_CONFIG,
+      ...this.props.zoomConfig,
+    };
+  }
+
+  viewPort(): Size {
+    if (this.props.width !== undefined && this.props.height !== undefined) {
+      return {width: this.props.width, height: this.props.height};
+    }
+    return this.state.layout ?? {width: 0, height: 0};
+  }
+
+  fittedContentSize(): Size {
+    return fitContentSize(this.props.contentSize, this.viewPort());
+  }
+
+  isZoomed(): boolean {
+    return this.zoom.scale !== 1;
+  }
+
+  /**
+   * 터치를 가져갈지 판단합니다.
+   * 확대 중이거나, 두손가락 확대가 가능한 상태에서 두손가락 터치면 가져갑니다.
+   * @param event
+   */
+  shouldCapture(event: GestureResponderEvent): boolean {
+    if (this.isZoomed()) {
+      return true;
+    }
+    const config = this.config();
+    return (
+      config.enabled &&
+      config.pinchEnabled &&
+      event.nativeEvent.touches.length > 1
+    );
+  }
+
+  /**
+   * 부모가 끌기를 가져갈지 shouldStartDrag로 물어봅니다.
+   * 확대되지 않은 상태의 한손가락 터치만 가져갈 수 있습니다.
+   * @param event
+   */
+  shouldStartDrag(event: GestureResponderEvent): boolean {
+    const start = this.dragStart;
+    if (
+      this.props.shouldStartDrag === undefined ||
+      this.isZoomed() ||
+      start === null ||
+      event.nativeEvent.touches.length !== 1
+    ) {
+      return false;
+    }
+    return this.props.shouldStartDrag({
+      x: event.nativeEvent.pageX - start.x,
+      y: event.nativeEvent.pageY - start.y,
+    });
+  }
+
+  /**
+   * 터치 위치를 view 기준 좌표로 바꿉니다.
+   * 안쪽 view의 좌표(locationX)가 섞이지 않도록 항상 page 좌표에서 계산합니다.
+   * @param touch
+   */
+  touchPosition(touch: PagePoint): Position {
+    return {
+      x: touch.pageX - this.absolutePosition.x,
+      y: touch.pageY - this.absolutePosition.y,
+    };
+  }
+
+  pinchInfo(touches: NativeTouchEvent[]): PinchInfo {
+    const a = this.touchPosition(touches[0]);
+    const b = this.touchPosition(touches[1]);
+    return {
+      center: {x: (a.x + b.x) / 2, y: (a.y + b.y) / 2},
+      distance: Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2)),
+    };
+  }
+
+  /**
+   * 지금 닿아 있는 손가락으로 이동 상태를 새로 시작합니다.
+   * @param event
+   */
+  doTrack(event: GestureResponderEvent) {
+    const touches = event.nativeEvent.touches;
+    if (touches.length > 1) {
+      this.lastTap = 0;
+      const pinch = this.pinchInfo(touches);
+      this.touch = {last: pinch.center, pinch, timestamp: event.timeStamp};
+    } else if (touches.length === 1) {
+      this.touch = {
+        last: this.touchPosition(touches[0]),
+        pinch: null,
+        timestamp: event.timeStamp,
+      };
+    }
+  }
+
+  /**
+   * 두번 터치를 감지해야 하는지 여부입니다.
+   * 기본 확대를 쓰거나 onDoubleTap이 있으면 감지합니다.
+   */
+  doubleTapDetectable(): boolean {
+    const config = this.config();
+    return (
+      (config.enabled && config.doubleTapEnabled) ||
+      this.props.onDoubleTap !== undefined
+    );
+  }
+
+  /**
+   * 한손가락 터치가 시작될 때 직전 터치와 이어지는 두번 터치인지 확인합니다.
+   * 두번 터치면 onDoubleTap을 부른 뒤 기본 확대(확대 중이면 원래대로)를 합니다.
+   * @param event
+   */
+  doCheckDoubleTap(event: GestureResponderEvent) {
+    if (!this.doubleTapDetectable()) {
+      return;
+    }
+    const config = this.config();
+    if (event.timeStamp - this.lastTap >= config.doubleTapDelay) {
+      this.lastTap = event.timeStamp;
+      return;
+    }
+    this.lastTap = 0;
+    const point = this.touchPosition(event.nativeEvent);
+    this.props.onDoubleTap?.(point);
+    if (config.enabled && config.doubleTapEnabled) {
+      this.stopMomentum();
+      this.doAnimation(
+        doubleTap(this.zoom, point, this.viewPort(), config.doubleTapScale),
+        config.animationDuration,
+      );
+    }
+  }
+
+  isEmulatedMouse(event: WebMouseEvent): boolean {
+    return event.timeStamp - this.lastTouch < EMULATED_MOUSE_DELAY;
+  }
+
+  /**
+   * 한번 터치와 길게 누르기 감지를 시작합니다.
+   * @param point 시작 위치
+   * @param timestamp
+   * @param single 한손가락 터치인지 여부
+   */
+  doTapStart(point: PagePoint, timestamp: number, single: boolean) {
+    // 한번 터치를 기다리는 중에 다시 터치했으면 한번 터치가 아님
+    const secondTouch = this.tapTimer !== null;
+    this.doClearTap();
+    this.tapStart =
+      single && !secondTouch
+        ? {x: point.pageX, y: point.pageY, timestamp}
+        : null;
+    if (this.tapStart !== null && this.props.onLongPress !== undefined) {
+      this.longPressTimer = setTimeout(
+        () => this.doLongPress(),
+        LONG_PRESS_DURATION,
+      );
+    }
+  }
+
+  /**
+   * 움직였으면 한번 터치도, 길게 누르기도, 두번 터치의 첫번째도 아닙니다.
+   * @param point
+   */
+  doTapMove(point: PagePoint) {
+    const start = this.tapStart;
+    if (
+      start !== null &&
+      (Math.abs(point.pageX - start.x) > TAP_SLOP ||
+        Math.abs(point.pageY - start.y) > TAP_SLOP)
+    ) {
+      this.tapStart = null;
+      this.lastTap = 0;
+      this.doClearLongPress();
+    }
+  }
+
+  /**
+   * 모든 손가락을 뗐을 때 한번 터치였는지 확인합니다.
+   * 짧고 거의 움직이지 않은 터치면, 두번 터치가 아님이 확인될 때까지 기다린 뒤 onTap을 부릅니다.
+   * 두번 터치를 감지하지 않으면 기다리지 않습니다.
+   * @param point 뗀 위치
+   * @param timestamp
+   */
+  doCheckTap(point: PagePoint, timestamp: number) {
+    const start = this.tapStart;
+    this.tapStart = null;
+    this.doClearLongPress();
+    const onTap = this.props.onTap;
+    if (
+      onTap === undefined ||
+      start === null ||
+      timestamp - start.timestamp > TAP_DURATION ||
+      Math.abs(point.pageX - start.x) > TAP_SLOP ||
+      Math.abs(point.pageY - start.y) > TAP_SLOP
+    ) {
+      return;
+    }
+    const pos = this.touchPosition(point);
+    const delay = this.doubleTapDetectable() ? this.config().doubleTapDelay : 0;
+    this.tapTimer = setTimeout(() => {
+      this.tapTimer = null;
+      onTap(pos);
+    }, delay);
+  }
+
+  doClearTap() {
+    if (this.tapTimer !== null) {
+      clearTimeout(this.tapTimer);
+      this.tapTimer = null;
+    }
+    this.doClearLongPress();
+  }
+
+  doClearLongPress() {
+    if (this.longPressTimer !== null) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+
+  /**
+   * 길게 누르기입니다. 이후 손을 떼도 한번 터치로 보지 않습니다.
+   */
+  doLongPress() {
+    this.longPressTimer = null;
+    const start = this.tapStart;
+    this.tapStart = null;
+    if (start === null) {
+      return;
+    }
+    this.props.onLongPress?.(
+      this.touchPosition({pageX: start.x, pageY: start.y}),
+    );
+  }
+
+  onMove(event: GestureResponderEvent) {
+    const touch = this.touch;
+    if (touch === null) {
+      return;
+    }
+    const touches = event.nativeEvent.touches;
+    const config = this.config();
+    const timeDiff = event.timeStamp - touch.timestamp;
+    if (touches.length > 1) {
+      const next = this.pinchInfo(touches);
+      if (
+        touch.pinch !== null &&
+        !this.dragging &&
+        config.enabled &&
+        config.pinchEnabled
+      ) {
+        this.doAnimation(
+          pinchMove(this.zoom, touch.pinch, next, this.viewPort()),
+          timeDiff,
+        );
+      }
+      this.touch = {last: next.center, pinch: next, timestamp: event.timeStamp};
+      return;
+    }
+    const pos = this.touchPosition(touches[0]);
+    if (touch.pinch === null) {
+      const delta = {x: pos.x - touch.last.x, y: pos.y - touch.last.y};
+      if (timeDiff > 0) {
+        // 직전 속도와 섞어서 튀는 값을 줄임
+        this.velocity = {
+          x: (delta.x / timeDiff) * 0.8 + this.velocity.x * 0.2,
+          y: (delta.y / timeDiff) * 0.8 + this.velocity.y * 0.2,
+        };
+      }
+      const start = this.dragStart;
+      if (this.dragging && start !== null) {
+        this.props.onDragMove?.({
+          x: event.nativeEvent.pageX - start.x,
+          y: event.nativeEvent.pageY - start.y,
+        });
+      } else if (this.isZoomed()) {
+        this.doPan(delta, timeDiff);
+      }
+    }
+    // 두손가락에서 한손가락이 되면 남은 손가락 위치부터 다시 시작
+    this.touch = {last: pos, pinch: null, timestamp: event.timeStamp};
+  }
+
+  /**
+   * 확대된 child를 delta만큼 이동합니다.
+   * 가장자리 너머로 끈 만큼은 onEdgeOverflow에 먼저 넘기고, 남은 만큼만 이동합니다.
+   * @param delta
+   * @param timeDiff
+   */
+  doPan(delta: Position, timeDiff: number) {
+    const config = this.config();
+    const move = this.doEdgeOverflow(delta);
+    if (config.bounceEnabled) {
+      // 범위를 벗어나는 방향이면 저항을 줌
+      const viewPort = this.viewPort();
+      const bounds = panBounds(
+        this.fittedContentSize(),
+        viewPort,
+        this.zoom.scale,
+      );
+      const overX = Math.abs(this.zoom.translateX) - bounds.x;
+      const overY = Math.abs(this.zoom.translateY) - bounds.y;
+      if (overX > 0 && move.x * this.zoom.translateX > 0) {
+        move.x = rubberBand(move.x, overX, viewPort.width);
+      }
+      if (overY > 0 && move.y * this.zoom.translateY > 0) {
+        move.y = rubberBand(move.y, overY, viewPort.height);
+      }
+    }
+    this.doAnimation(
+      {
+        ...this.zoom,
+        translateX: this.zoom.translateX + move.x,
+        translateY: this.zoom.translateY + move.y,
+      },
+      timeDiff,
+      !config.bounceEnabled,
+    );
+  }
+
+  /**
+   * 가장자리 너머로 끈 거리를 onEdgeOverflow에 넘기고, 이동에 쓸 나머지를 돌려줍니다.
+   * 이미 넘겨준 축은 끈 만큼을 모두 넘기고, 반대로 끌어서 0을 지나치면 지나친 만큼은 다시 이동에 씁니다.
+   * 받아들이지 않은 축은 평소처럼 이동합니다.
+   * @param delta
+   */
+  doEdgeOverflow(delta: Position): Position {
+    const onEdgeOverflow = this.props.onEdgeOverflow;
+    const held = this.edgeOverflow;
+    if (onEdgeOverflow === undefined || !this.config().pageOnEdgeSwipe) {
+      return {...delta};
+    }
+    const bounds = panBounds(
+      this.fittedContentSize(),
+      this.viewPort(),
+      this.zoom.scale,
+    );
+    const translate = {x: this.zoom.translateX, y: this.zoom.translateY};
+    const overflow = {x: 0, y: 0};
+    const rest = {...delta};
+    AXES.forEach((axis) => {
+      if (held[axis] !== 0) {
+        const next = held[axis] + delta[axis];
+        const crossed = next * held[axis] < 0;
+        overflow[axis] = crossed ? 0 : next;
+        rest[axis] = crossed ? next : 0;
+        return;
+      }
+      const next = translate[axis] + delta[axis];
+      if (next > bounds[axis]) {
+        overflow[axis] = next - Math.max(bounds[axis], translate[axis]);
+      } else if (next < -bounds[axis]) {
+        overflow[axis] = next - Math.min(-bounds[axis], translate[axis]);
+      }
+      rest[axis] = delta[axis] - overflow[axis];
+    });
+    if (overflow.x === 0 && overflow.y === 0 && held.x === 0 && held.y === 0) {
+      return rest;
+    }
+    const accepted = onEdgeOverflow(overflow);
+    const move = {x: 0, y: 0};
+    const nextHeld = {x: 0, y: 0};
+    AXES.forEach((axis) => {
+      if (overflow[axis] !== 0 && accepted[axis] !== overflow[axis]) {
+        move[axis] = delta[axis];
+      } else {
+        nextHeld[axis] = overflow[axis];
+        move[axis] = rest[axis];
+      }
+    });
+    this.edgeOverflow = nextHeld;
+    return move;
+  }
+
+  /**
+   * 손을 뗐거나 터치를 빼앗겼을 때입니다.
+   * @param event
+   * @param released 빼앗긴 경우면 false이며, 관성 없이 멈춥니다.
+   */
+  onRelease(event: GestureResponderEvent, released: boolean) {
+    const touch = this.touch;
+    this.touch = null;
+    // 잠깐 멈췄다가 뗐으면 관성 없음
+    const velocity =
+      released &&
+      touch !== null &&
+      touch.pinch === null &&
+      event.timeStamp - touch.timestamp < VELOCITY_TIMEOUT
+        ? this.velocity
+        : {x: 0, y: 0};
+    if (this.dragging) {
+      this.dragging = false;
+      this.props.onDragEnd?.(velocity);
+      return;
+    }
+    const overflow = this.edgeOverflow;
+    if (overflow.x !== 0 || overflow.y !== 0) {
+      this.edgeOverflow = {x: 0, y: 0};
+      this.props.onEdgeOverflowEnd?.(overflow, velocity);
+      this.doRelease({x: 0, y: 0});
+      return;
+    }
+    const config = this.config();
+    if (touch === null || !config.enabled || !this.isZoomed()) {
+      return;
+    }
+    if (
+      this.zoom.scale > config.minResetScale &&
+      this.zoom.scale < config.maxResetScale
+    ) {
+      this.doAnimation(IDENTITY_ZOOM, config.animationDuration);
+      return;
+    }
+    this.doRelease(velocity);
+  }
+
+  /**
+   * 손을 뗀 뒤의 이동입니다.
+   * 범위를 벗어났으면 spring으로 되돌리고, 빠르게 밀었으면 관성으로 미끄러집니다.
+   * @param velocity 손을 뗄 때의 속도 (px/ms)
+   */
+  doRelease(velocity: Position) {
+    const config = this.config();
+    const bounds = panBounds(
+      this.fittedContentSize(),
+      this.viewPort(),
+      this.zoom.scale,
+    );
+    const from = {x: this.zoom.translateX, y: this.zoom.translateY};
+    const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
+    const doMomentum = config.momentumEnabled && speed > MIN_FLING_VELOCITY;
+    const target = doMomentum ? momentumTarget(from, velocity) : from;
+    const clamped = positionClamp(target, bounds);
+    const animatedZoom = this.getAnimatedZoom();
+
+    let animation: Animated.CompositeAnimation;
+    if (doMomentum && clamped.x === target.x && clamped.y === target.y) {
+      animation = Animated.decay(animatedZoom.translate, {
+        velocity,
+        deceleration: DECELERATION,
+        useNativeDriver: true,
+      });
+    } else if (clamped.x !== from.x || clamped.y !== from.y) {
+      animation = Animated.spring(animatedZoom.translate, {
+        toValue: clamped,
+        // decay와 달리 spring은 초당 속도를 받음
+        velocity: doMomentum
+          ? {x: velocity.x * 1000, y: velocity.y * 1000}
+          : {x: 0, y: 0},
+        bounciness: 0,
+        useNativeDriver: true,
+      });
+    } else {
+      return;
+    }
+    this.doZoomChange({
+      ...this.zoom,
+      translateX: clamped.x,
+      translateY: clamped.y,
+    });
+    this.doStartAnimation(animation, animatedZoom);
+  }
+
+  /**
+   * 관성 이동 중에 다시 터치하면 그 자리에서 멈춥니다.
+   */
+  stopMomentum() {
+    if (!this.animating) {
+      return;
+    }
+    this.animating = false;
+    const {scale, translate} = this.getAnimatedZoom();
+    scale.stopAnimation((value) => {
+      this.doZoomChange({...this.zoom, scale: value});
+    });
+    translate.stopAnimation((value) => {
+      this.doZoomChange({
+        ...this.zoom,
+        translateX: value.x,
+        translateY: value.y,
+      });
+    });
+  }
+
+  /**
+   * zoom을 범위에 맞춘 뒤 timing 동안 애니메이션 합니다.
+   * @param zoom
+   * @param timing
+   * @param clampTransform false면 이동 범위를 벗어나도 그대로 둡니다. (rubber band 중)
+   */
+  doAnimation(zoom: ZoomState, timing: number, clampTransform: boolean = true) {
+    const next = clampZoom(
+      zoom,
+      this.config(),
+      this.fittedContentSize(),
+      this.viewPort(),
+      clampTransform,
+    );
+    this.doZoomChange(next);
+    const animatedZoom = this.getAnimatedZoom();
+    this.doStartAnimation(
+      Animated.parallel(
+        [
+          Animated.timing(animatedZoom.scale, {
+            duration: timing,
+            toValue: next.scale,
+            useNativeDriver: true,
+          }),
+          Animated.timing(animatedZoom.translate, {
+            duration: timing,
+            toValue: {x: next.translateX, y: next.translateY},
+            useNativeDriver: true,
+          }),
+        ],
+        {
+          stopTogether: true,
+        },
+      ),
+      animatedZoom,
+    );
+  }
+
+  /**
+   * 애니메이션을 시작하고, 도중에 멈추지 않고 끝나면 onZoomSettle을 부릅니다.
+   * 그 사이에 animatedZoom이 바뀌었으면 다른 값의 애니메이션이므로 무시합니다.
+   * @param animation
+   * @param animatedZoom 움직이는 값
+   */
+  doStartAnimation(
+    animation: Animated.CompositeAnimation,
+    animatedZoom: AnimatedZoom,
+  ) {
+    this.animating = true;
+    animation.start(({finished}) => {
+      if (!finished || animatedZoom !== this.getAnimatedZoom()) {
+        return;
+      }
+      this.animating = false;
+      this.props.onZoomSettle?.();
+    });
+  }
+
+  /**
+   * 확대 상태를 바꾸고 onZoomStart, onZoomChange, onZoomEnd로 알립니다.
+   * @param zoom
+   */
+  doZoomChange(zoom: ZoomState) {
+    const prev = this.zoom;
+    this.zoom = zoom;
+    if (
+      prev.scale === zoom.scale &&
+      prev.translateX === zoom.translateX &&
+      prev.translateY === zoom.translateY
+    ) {
+      return;
+    }
+    if (prev.scale === 1 && zoom.scale !== 1) {
+      this.props.onZoomStart?.();
+    }
+    this.props.onZoomChange?.(zoom);
+    if (prev.scale !== 1 && zoom.scale === 1) {
+      this.props.onZoomEnd?.();
+    }
+  }
+
+  /**
+   * scale 배율로 확대/축소합니다.
+   * 확대가 꺼져 있으면 원래 크기로 되돌리는 것만 합니다.
+   * @param scale 원본 기준 배율
+   * @param focalPoint 확대 기준점 (view 기준 좌표). 없으면 현재 view 중앙입니다.
+   * @param animated
+   */
+  zoomTo(scale: number, focalPoint?: Position, animated: boolean = true) {
+    const config = this.config();
+    if (scale === 1) {
+      this.resetZoom(animated);
+      return;
+    }
+    if (!config.enabled) {
+      return;
+    }
+    this.stopMomentum();
+    this.doAnimation(
+      zoomAround(this.zoom, scale, focalPoint, this.viewPort()),
+      animated ? config.animationDuration : 0,
+    );
+  }
+
+  /**
+   * 원래 크기로 되돌립니다.
+   * 이미 원래 크기이고 움직이는 중도 아니면 아무것도 하지 않습니다.
+   * @param animated
+   */
+  resetZoom(animated: boolean = true) {
+    const zoom = this.zoom;
+    if (
+      !this.animating &&
+      zoom.scale === 1 &&
+      zoom.translateX === 0 &&
+      zoom.translateY === 0
+    ) {
+      return;
+    }
+    this.stopMomentum();
+    this.doAnimation(
+      IDENTITY_ZOOM,
+      animated ? this.config().animationDuration : 0,
+    );
+  }
+
+  /**
+   * 확대된 child를 delta만큼 이동합니다. (키보드 등)
+   * 확대되지 않았거나 이미 가장자리라 움직일 수 없으면 false를 돌려줍니다.
+   * @param delta
+   * @param animated
+   */
+  panBy(delta: Position, animated: boolean = true): boolean {
+    if (!this.isZoomed()) {
+      return false;
+    }
+    const bounds = panBounds(
+      this.fittedContentSize(),
+      this.viewPort(),
+      this.zoom.scale,
+    );
+    const translate = positionClamp(
+      {x: this.zoom.translateX + delta.x, y: this.zoom.translateY + delta.y},
+      bounds,
+    );
+    if (
+      translate.x === this.zoom.translateX &&
+      translate.y === this.zoom.translateY
+    ) {
+      return false;
+    }
+    this.stopMomentum();
+    this.doAnimation(
+      {...this.zoom, translateX: translate.x, translateY: translate.y},
+      animated ? this.config().animationDuration : 0,
+    );
+    return true;
+  }
+
+  /**
+   * 마우스 휠로 커서 위치를 기준으로 확대/축소합니다. (react-native-web)
+   * 위로 굴리면 확대하고, 원래 크기보다 작아지지는 않습니다.
+   * 트랙패드로 두손가락 확대를 하면 ctrlKey가 눌린 휠 이벤트로 들어옵니다.
+   * 확대 중에는 페이지가 스크롤되지 않도록 preventDefault 합니다.
+   * @param event
+   */
+  doWheelZoom(event: WheelEvent) {
+    const config = this.config();
+    if (!config.enabled || !config.pinchEnabled) {
+      return;
+    }
+    const delta =
+      event.deltaMode === 1 ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+    const speed = event.ctrlKey ? TRACKPAD_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+    const scale = Math.max(this.zoom.scale * Math.exp(-delta * speed), 1);
+    if (scale === this.zoom.scale && !this.isZoomed()) {
+      return;
+    }
+    event.preventDefault();
+    if (scale !== this.zoom.scale) {
+      this.zoomTo(scale, this.touchPosition(event), false);
+    }
+  }
+
+  /**
+   * react-native-web에서 root의 DOM node입니다. native에서는 null 입니다.
+   */
+  webNode(): HTMLElement | null {
+    const node = (this.rootView.current as unknown) as HTMLElement | null;
+    return node !== null && typeof node.addEventListener === 'function'
+      ? node
+      : null;
+  }
+
+  getZoomState(): ZoomState {
+    return {...this.zoom};
+  }
+
+  getAnimatedZoom(): AnimatedZoom {
+    return this.props.animatedZoom ?? this.ownZoom;
+  }
+
+  componentDidUpdate(
+    prevProps: ZoomableViewProps,
+    prevState: ZoomableViewState,
+  ) {
+    if (prevProps.animatedZoom !== this.props.animatedZoom) {
+      // 다른 값으로 바뀌었으면 그 값의 상태에서 이어서 움직임
+      this.touch = null;
+      this.animating = false;
+      this.edgeOverflow = {x: 0, y: 0};
+      this.zoom = {...(this.props.initialZoom ?? IDENTITY_ZOOM)};
+      return;
+    }
+    if (
+      this.config().enabled &&
+      this.isZoomed() &&
+      (!sameSize(prevProps, this.props) ||
+        !sameSize(prevProps.contentSize, this.props.contentSize) ||
+        !sameSize(prevState.layout, this.state.layout))
+    ) {
+      // 이동 범위가 바뀌었으므로 다시 맞춤
+      this.doAnimation(this.zoom, 0);
+    }
+  }
+
+  componentDidMount() {
+    this.webNode()?.addEventListener('wheel', this.wheelListener, {
+      passive: false,
+    });
+  }
+
+  componentWillUnmount() {
+    this.doClearTap();
+    this.webNode()?.removeEventListener('wheel', this.wheelListener);
+  }
+
+  render() {
+    const {width, height} = this.props;
+    const sized = width !== undefined && height !== undefined;
+    const zoom = this.getAnimatedZoom();
+    return (
+      <View
+        ref={this.rootView}
+        style={[
+          styles.root,
+          sized ? {width, height} : styles.fill,
+          this.props.style,
+        ]}
+        onLayout={(event) => {
+          if (!sized) {
+            const layout = event.nativeEvent.layout;
+            this.setState({
+              layout: {width: layout.width, height: layout.height},
+            });
+          }
+          this.rootView.current?.measure(
+            (_x, _y, _width, _height, pageX, pageY) => {
+              this.absolutePosition = {
+                x: pageX,
+                y: pageY,
+              };
+            },
+          );
+        }}
+        {...this.gestureHandlers}
+        {...this.touchHandlers}
+        {...this.mouseHandlers}>
+        {this.props.transformChildren === false ? (
+          this.props.children
+        ) : (
+          <Animated.View
+            style={[
+              styles.content,
+              {
+                transform: [
+                  {
+                    translateX: zoom.translate.x,
+                  },
+                  {
+                    translateY: zoom.translate.y,
+                  },
+                  {
+                    scale: zoom.scale,
+                  },
+                ],
+              },
+            ]}>
+            {this.props.children}
+          </Animated.View>
+        )}
+      </View>
+    );
+  }
+}
+
+/**
+ * 두 크기의 값이 같은지 비교합니다. 매번 새로 만든 객체를 넘겨받아도 다시 맞추지 않도록 합니다.
+ * @param a
+ * @param b
+ */
+function sameSize(
+  a: Partial<Size> | null | undefined,
+  b: Partial<Size> | null | undefined,
+): boolean {
+  return a?.width === b?.width && a?.height === b?.height;
+}
+
+const styles = StyleSheet.create({
+  root: {
+    overflow: 'hidden',
+  },
+  fill: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+});
@@ -1,55 +1,212 @@
 import * as React from 'react';
 import {
   View,
-  Text,
   FlatList,
   Animated,
   FlatListProps,
   ListRenderItem,
   ListRenderItemInfo,
-  GestureResponderHandlers,
-  GestureResponderEvent,
   Dimensions,
-  Image
+  Image,
+  StyleSheet,
+  ActivityIndicator,
+  ViewProps,
+  Text,
+  TouchableOpacity,
+  PixelRatio,
+  AccessibilityInfo,
+  AccessibilityActionEvent
 } from 'react-native';
 import { createRef, RefObject } from 'react';
+import ProgressiveImage from './ProgressiveImage';
+import {
+  Position,
+  Size,
+  ZoomState,
+  ZoomConfig,
+  IDENTITY_ZOOM,
+  DEFAULT_ZOOM_CONFIG,
+  MIN_FLING_VELOCITY,
+  fitContentSize,
+  TileSource,
+  Tile,
+  visibleTiles
+} from './ZoomEngine';
+
+import ZoomableView, { AnimatedZoom, ZoomableViewProps } from './ZoomableView';
 
-const FULL_WIDTH = Dimensions.get("window").width;
-const FULL_HEIGHT = Dimensions.get("window").height;
+export * from './ZoomEngine';
+export * from './ZoomableView';
+export { ZoomableView };
 
 type LocalResource = number
 type PhotoObject = {
  uri: string;
+ width?: number;
+ height?: number;
+ thumbnailUri?: string;
+ tiles?: TileSource;
 }
 type HasId = {
     id: string;
 }
 
-interface Position {
-  x: number
-  y: number
+/**
+ * 이미지, 동영상, 임의의 뷰를 섞어서 보여줄 때 쓰는 item 입니다.
+ * type으로 구분합니다.
+ * image: PhotoObject와 같습니다.
+ * video: renderVideo로 그립니다. 기본적으로 확대하지 않습니다.
+ * custom: renderCustomItem으로 그리며, 이미지와 똑같이 확대/이동됩니다.
+ * width, height를 주면 이미지처럼 가장자리에서 이동을 멈춥니다.
+ */
+export type MediaType = "image" | "video" | "custom"
+
+export type ImageMediaItem = PhotoObject & {
+  type: "image"
+  id?: string
+}
+
+export type VideoMediaItem = {
+  type: "video"
+  id?: string
+  uri: string
+  posterUri?: string
+  width?: number
+  height?: number
 }
 
-interface PinchInfo {
-  center: Position,
-  distance: number
+export type CustomMediaItem = {
+  type: "custom"
+  id?: string
+  width?: number
+  height?: number
+  [ key: string ]: unknown
+}
+
+export type MediaItem = ImageMediaItem | VideoMediaItem | CustomMediaItem
+
+/**
+ * 기본 제공하는 페이지 표시입니다.
+ * dots: 이미지 개수만큼 점을 찍고 현재 이미지를 강조합니다.
+ * counter: "3 / 12" 처럼 표시합니다.
+ */
+export type IndicatorType = "dots" | "counter"
+
+/**
+ * 이미지를 넘기는 방향입니다.
+ */
+export type Orientation = "horizontal" | "vertical"
+
+/**
+ * 터치 위치입니다.
+ * x, y는 컴포넌트 기준 좌표이고,
+ * imageX, imageY는 현재 배율과 이동량을 되돌린 원본 이미지 기준 좌표입니다.
+ * 원본 크기를 모르면 imageX, imageY는 배율 1일 때의 화면 좌표와 같습니다.
+ */
+export type TapPoint = {
+  x: number
+  y: number
+  imageX: number
+  imageY: number
 }
 
 /**
  * width, height, backgroundColor는 직접 줄 수 있습니다
+ * width, height를 주지 않으면 부모 크기를 채우고(flex: 1), 그려진 크기가 바뀌면(화면 회전 등) 다시 맞춥니다.
  * ItemT는 require를 통해 생성되는 LocalResource 혹은 uri를 들고 있는
  * 이미지에 한해서만 가능합니다.
  * initalData는 view할 이미지 데이터를 말합니다
+ * data를 주면 값이 바뀔 때마다 새 데이터로 바꿉니다. 보고 있던 이미지는 id로 찾아서 유지합니다.
  * renderItem은 기본적으로 Image 컴포넌트로 구성되어있지만, 사용자 임의대로 
  * 구성할 수 있습니다.
+ * 기본 renderItem은 불러오는 동안 thumbnailUri와 renderImageLoading을, 실패하면 renderImageError를 보여줍니다.
+ * prefetchCount만큼 현재 이미지 앞뒤의 이미지를 미리 받아둡니다.
+ * MediaItem을 쓰면 동영상(renderVideo)과 임의의 뷰(renderCustomItem)를 섞을 수 있습니다.
+ * active는 현재 보고 있는 item인지 여부이며, 동영상은 active가 아니면 멈춰야 합니다.
+ * mediaZoomConfig로 종류별 확대 설정을 바꿀 수 있습니다.
+ * index를 주면 controlled 모드로 동작합니다. 값이 바뀌면 해당 이미지로 이동하고,
+ * 사용자가 넘긴 경우에는 onIndexChange로 알려줍니다.
+ * zoomConfig로 확대 동작을 바꿀 수 있고, getItemZoomConfig로 이미지마다 덮어쓸 수 있습니다.
+ * getItemContentSize는 이동 범위 계산에 쓸 원본 크기입니다. 없으면 이미지에서 직접 읽습니다.
+ * rememberItemZoom이 true면 다른 이미지로 넘어가도 각 이미지의 확대 상태를 기억합니다.
+ * false면 떠나는 이미지의 확대는 초기화됩니다.
+ * onDismiss를 주면 확대되지 않은 상태에서 넘기는 방향과 수직으로 끌어서 닫을 수 있습니다.
+ * orientation이 "vertical"이면 위아래로 넘기고, 닫기는 좌우로 끕니다.
+ * onStartReached/onEndReached는 처음/끝에서 loadThreshold개 이내로 다가가면 불립니다.
+ * 앞뒤로 이미지를 붙인 새 데이터를 돌려주면 되고, 보고 있던 이미지는 id로 찾아서 유지합니다.
+ * 이들을 주면 해당 방향은 onRefresh의 START/END 대신 이쪽을 씁니다.
+ * 불러오다 실패하면 onLoadError로 알려주고, 다음에 다가갈 때 다시 부릅니다.
+ * loop가 true면 끝에서 처음으로, 처음에서 끝으로 이어서 넘어갑니다.
+ * 이때는 처음/끝이 없으므로 START/END refresh와 onStartReached/onEndReached는 불리지 않습니다.
+ * autoplay를 주면 슬라이드쇼로 동작하고, 넘어갈 때마다 onAutoplayTick이 불립니다.
+ * renderHeader, renderFooter, renderCaption, renderIndicator는 이미지 위에 겹쳐 그리는 overlay 입니다.
+ * 확대/이동되지 않고, 제스쳐를 받는 뷰 바깥에 있으므로 안에 버튼을 넣어도 됩니다.
+ * toggleOverlaysOnTap이면 한번 터치로 overlay를 숨기거나 보이고,
+ * hideOverlaysWhileZoomed면 확대 중에는 숨깁니다.
+ * onTap은 두번 터치가 아님이 확인된 뒤에 불립니다.
+ * onDoubleTap은 기본 확대와 함께 불리고, zoomConfig.doubleTapEnabled를 끄면 기본 확대 대신 이것만 불립니다.
+ * onLongPress는 한손가락으로 길게 눌렀을 때 불립니다.
+ * onZoomStart, onZoomEnd는 현재 이미지가 확대되기 시작할 때와 원래 크기로 돌아왔을 때 불립니다.
+ * onZoomChange는 배율이나 이동량의 목표값이 바뀔 때마다 불립니다.
+ * showThumbnails면 아래쪽에 작은 이미지 목록을 보여주고, 누르면 해당 이미지로 넘어갑니다.
+ * 현재 이미지는 강조되고 목록 가운데로 옵니다. 이미지가 아닌 item은 renderThumbnail로 그립니다.
+ * 스크린 리더에서는 adjustable 요소 하나로 보이며, 위아래로 쓸어서 넘기고 동작 메뉴로 확대/축소합니다.
+ * 이 요소는 item을 감싸지 않으므로 item 안의 버튼(동영상 재생 등)에도 따로 닿을 수 있습니다.
+ * 라벨은 getItemAccessibilityLabel로, 넘겼을 때 읽어주는 말은 getAccessibilityAnnouncement로 바꿀 수 있습니다.
+ * 키보드로도 다룰 수 있습니다. 방향키와 PageUp/PageDown으로 넘기고, +/-/0으로 확대/축소/원래대로,
+ * 확대 중에는 방향키로 이동하며, Escape는 onDismiss를 부릅니다.
+ * web에서는 focus된 상태의 키 입력을 직접 받고, 다른 곳(TV 리모컨 등)은 ref의 handleKeyPress로 넘겨줍니다.
+ * web에서는 마우스 휠과 트랙패드로 커서 위치를 기준으로 확대/축소합니다.
+ * 마우스 끌기와 두번 누르기는 web의 responder가 한손가락 터치로 넘겨주고,
+ * 한번 누르기(onTap, toggleOverlaysOnTap)와 길게 누르기는 마우스 버튼으로 따로 봅니다.
  */
 export type SwiperViewProps<ItemT> = {
-  width: number
-  height: number
-  initialData: ItemT[]
-  renderItem: ListRenderItem<ItemT>
+  width?: number
+  height?: number
+  initialData?: ItemT[]
+  data?: ItemT[]
+  renderItem?: ListRenderItem<ItemT>
+  renderImageLoading?: ( item: ItemT, index: number ) => React.ReactElement | null
+  renderImageError?: ( item: ItemT, index: number, retry: () => void ) => React.ReactElement | null
+  prefetchCount: number
+  renderVideo?: ( item: VideoMediaItem, index: number, active: boolean ) => React.ReactElement | null
+  renderCustomItem?: ( item: CustomMediaItem, index: number, active: boolean ) => React.ReactElement | null
+  mediaZoomConfig?: { [ type in MediaType ]?: Partial<ZoomConfig> }
   initialScrollIndex: number
   backgroundColor: string
+  orientation: Orientation
+  index?: number
+  onIndexChange?: ( index: number, item: ItemT ) => void
+  zoomConfig?: Partial<ZoomConfig>
+  getItemZoomConfig?: ( item: ItemT, index: number ) => Partial<ZoomConfig> | undefined
+  getItemContentSize?: ( item: ItemT, index: number ) => Size | undefined
+  rememberItemZoom?: boolean
+  onDismiss?: () => void
+  onStartReached?: ( data: ItemT[] ) => PromiseLike<ItemT[]>
+  onEndReached?: ( data: ItemT[] ) => PromiseLike<ItemT[]>
+  loadThreshold: number
+  onLoadError?: ( error: unknown, status: RefreshStatus ) => void
+  renderLoadingIndicator?: ( status: RefreshStatus ) => React.ReactElement | null
+  loop?: boolean
+  autoplay?: boolean | Partial<AutoplayConfig>
+  onAutoplayTick?: ( index: number, item: ItemT ) => void
+  renderHeader?: ( item: ItemT, index: number ) => React.ReactElement | null
+  renderFooter?: ( item: ItemT, index: number ) => React.ReactElement | null
+  renderCaption?: ( item: ItemT, index: number ) => React.ReactElement | null
+  renderIndicator?: IndicatorType | ( ( index: number, count: number ) => React.ReactElement | null )
+  toggleOverlaysOnTap?: boolean
+  hideOverlaysWhileZoomed?: boolean
+  onTap?: ( item: ItemT, index: number, point: TapPoint ) => void
+  onDoubleTap?: ( item: ItemT, index: number, point: TapPoint ) => void
+  onLongPress?: ( item: ItemT, index: number, point: TapPoint ) => void
+  onZoomStart?: () => void
+  onZoomChange?: ( zoom: ZoomState ) => void
+  onZoomEnd?: () => void
+  showThumbnails?: boolean
+  thumbnailSize?: number
+  renderThumbnail?: ( item: ItemT, index: number, selected: boolean ) => React.ReactElement | null
+  getItemAccessibilityLabel?: ( item: ItemT, index: number ) => string
+  getAccessibilityAnnouncement?: ( index: number, count: number, item: ItemT ) => string
   onRefresh: ( status: RefreshStatus, prevData: ItemT[], prevIndex: number ) => PromiseLike<{
     newIndex: number,
     newData: ItemT[]
@@ -57,6 +214,49 @@ export type SwiperViewProps<ItemT> = {
 }
 
 
+/**
+ * 슬라이드쇼 설정입니다.
+ * interval: 다음 이미지로 넘어가는 간격 (ms)
+ * direction: 넘어가는 방향. 끝에 도달하면 반대쪽 끝으로 돌아갑니다.
+ * pauseOnTouch: 터치하는 동안 멈춥니다.
+ * resumeDelay: 손을 뗀 뒤 다시 시작하기까지 기다리는 시간 (ms)
+ * 확대 중에는 항상 멈춥니다.
+ */
+export type AutoplayConfig = {
+  interval: number
+  direction: "forward" | "backward"
+  pauseOnTouch: boolean
+  resumeDelay: number
+}
+
+/**
+ * ref를 통해 외부에서 SwiperView를 조작할 때 쓰는 메소드 목록입니다.
+ * 툴바 버튼, 키보드 단축키, 딥링크 등에서 사용합니다.
+ */
+export interface SwiperViewHandle {
+  goToIndex ( index: number, animated?: boolean ): void
+  next ( animated?: boolean ): void
+  prev ( animated?: boolean ): void
+  zoomTo ( scale: number, focalPoint?: Position, animated?: boolean ): void
+  resetZoom ( animated?: boolean ): void
+  getCurrentIndex (): number
+  getZoomState (): ZoomState
+  getAnimatedZoom (): AnimatedZoom
+  play (): void
+  pause (): void
+  isPlaying (): boolean
+  handleKeyPress ( key: string ): boolean
+  focus (): void
+}
+
+/**
+ * react-native-web의 키보드 이벤트 중 쓰는 부분입니다.
+ */
+type KeyPressEvent = {
+  key: string
+  preventDefault: () => void
+}
+
 export enum RefreshStatus {
   START = "RefreshState::START",
   END = "RefreshState::END",
@@ -70,78 +270,68 @@ export enum RefreshStatus {
  */
 type SwiperViewState<ItemT> = {
   refreshing: RefreshStatus | null,
+  loading: RefreshStatus | null,
+  zooming: boolean,
+  overlaysVisible: boolean,
   data: ItemT[],
   currentIndex: number,
+  tiles: Tile[],
 }
 
 /**
- * Single: 손가락 1개로 움직임
- * Double: 손가락 2개로 움직임
- * Other: 다른 상태. 참고로 손가락 떼면 무조건 Other 입니다.
+ * 이미지 하나의 확대 상태입니다.
+ * animatedZoom은 그 이미지를 그리는 값이고, zoom은 그 값이 향하는 목표입니다.
+ * 현재 이미지의 값은 제스쳐를 받는 ZoomableView가 움직이고, onZoomChange로 zoom을 갱신합니다.
  */
-enum ChildStatus {
-  SINGLE = "Child::SINGLE",
-  DOUBLE = "Child::DOUBLE",
-  OTHER = "Child::OTHER"
+type ItemZoom = {
+  animatedZoom: AnimatedZoom
+  zoom: ZoomState
 }
 
+const PAGE_DRAG_THRES = 0.3
+const DISMISS_SLOP = 10
+const DISMISS_DISTANCE_THRES = 0.2
+const DISMISS_VELOCITY_THRES = 0.5
+const AUTOPLAY_INTERVAL = 3000
+const THUMBNAIL_SIZE = 56
+const THUMBNAIL_MARGIN = 2
+const TILE_DELAY = 150
+const ACCESSIBILITY_ZOOM_STEP = 2
+const KEYBOARD_ZOOM_STEP = 1.5
+const KEYBOARD_PAN_STEP = 0.1
+
+
 /**
- * 두손가락 터치의 경우
- * 1) 처음 두손가락으로 변한 좌표
- * 2) 손을 떼지 않은 가장 최근 두손가락 좌표
- * 3) 가장 최근 좌표의 타임스탬프
- * 
- * 한손가락 터치의 경우도 마찬가지
- * 
- * 어떠한 경우에도 첫 터치의 타임스탬프 lastTouch를 업데합니다.
- * 이건 따닥 두번 터치하는거 잡을 때 씁니다.
+ * 종류별 기본 확대 설정입니다.
+ * 동영상은 재생 컨트롤과 겹치지 않도록 확대하지 않습니다.
  */
-type ChildState = ( {
-  status: ChildStatus.DOUBLE
-  initial: PinchInfo,
-  last: PinchInfo,
-  timestamp: number
-} | {
-  status: ChildStatus.SINGLE
-  initial: Position,
-  last: Position,
-  timestamp: number
-} | {
-  status: ChildStatus.OTHER
-} ) & {
-  lastTouch: number
+const DEFAULT_MEDIA_ZOOM_CONFIG: { [ type in MediaType ]?: Partial<ZoomConfig> } = {
+  video: { enabled: false }
 }
 
-const DOUBLE_TOUCH_THRES = 300 
-const MAX_ZOOM = 5 
-const DEFAULT_ZOOM = 2 
-const MIN_ZOOM = 0.5 
-const MAX_ZOOM_RESET = 1.3 
-const MIN_ZOOM_RESET = 0.0
-const SOFT_ANIMIATION_TIME = 300 
-
 /**
- * 좌표에 상수를 곱합니다. 원본은 건드리지 않습니다.
- * @param input 
- * @param value 
+ * item마다 감싸는 ZoomableView의 설정입니다.
+ * 제스쳐는 바깥의 ZoomableView 하나가 받으므로, 여기서는 주어진 값대로 그리기만 합니다.
  */
-const positionMult = ( input: Position, value: number ): Position => {
-  return {
-    x: input.x * value,
-    y: input.y * value
-  }
+const DRAW_ONLY_ZOOM_CONFIG: Partial<ZoomConfig> = {
+  enabled: false
+}
+
+const DEFAULT_AUTOPLAY_CONFIG: AutoplayConfig = {
+  interval: AUTOPLAY_INTERVAL,
+  direction: "forward",
+  pauseOnTouch: true,
+  resumeDelay: AUTOPLAY_INTERVAL,
 }
 
-export default class SwiperViewComponent<ItemT = LocalResource | PhotoObject> extends React.PureComponent<
-  React.PropsWithChildren<SwiperViewProps<ItemT>>, SwiperViewState<ItemT>> {
+export default class SwiperViewComponent<ItemT = LocalResource | PhotoObject | MediaItem> extends React.PureComponent<
+  React.PropsWithChildren<SwiperViewProps<ItemT>>, SwiperViewState<ItemT>> implements SwiperViewHandle {
   static defaultProps = {
     backgroundColor: "black",
-      width: FULL_WIDTH,
-      height: FULL_HEIGHT,
     initialScrollIndex: 0,
-    renderItem: (info:ListRenderItemInfo<LocalResource | PhotoObject>) => {
-        return <Image source={info.item} style={{width: "100%", height:"100%", resizeMode:"contain"}} />
-    },
+    orientation: "horizontal",
+    loadThreshold: 1,
+    prefetchCount: 1,
     onRefresh: ( _: RefreshStatus, prevData: unknown[], prevIndex: number ) => {
       return {
         newIndex: prevIndex,
@@ -150,370 +340,442 @@ export default class SwiperViewComponent<ItemT = LocalResource | PhotoObject> ex
     }
   }
 
-  private doingChildAnimation: boolean
   private viewPort: {
     width: number,
     height: number,
   }
 
+  /**
+   * 이미지 원본 크기 캐시입니다. keyOf로 구한 key를 씁니다.
+   */
+  private contentSizes: Map<string, Size>
+  /**
+   * unmount 되었는지 여부입니다. 비동기로 돌아온 콜백에서 상태를 바꾸지 않기 위해 씁니다.
+   */
+  private unmounted: boolean
+  /**
+   * 이미 Image.prefetch를 부른 uri 입니다.
+   */
+  private prefetched: Set<string>
+  /**
+   * 확대가 멈춘 뒤 조각을 그리기까지 기다리는 타이머입니다.
+   */
+  private tileTimer: ReturnType<typeof setTimeout> | null
+
   private flatList: RefObject<FlatList<ItemT>>
-  private rootView: RefObject<View>
-  private absolutePosition: Position
+  private thumbnailList: RefObject<FlatList<ItemT>>
+  private gestureView: RefObject<View>
+  /**
+   * 현재 이미지의 제스쳐를 받는 ZoomableView 입니다.
+   * 확대/이동은 모두 여기서 하고, 이미지는 item마다 감싼 ZoomableView가 같은 값으로 그립니다.
+   */
+  private zoomableView: RefObject<ZoomableView>
   private scrollHandlers: Required<Pick<FlatListProps<ItemT>,
     "onContentSizeChange" |
-    "onMomentumScrollEnd">>
+    "onMomentumScrollEnd" |
+    "onScroll">>
 
   /**
-   * 최상위 뷰에 등록할 제츠쳐 핸들러입니다
-   * 무조건 최상위 뷰에 넣어야 합니다
+   * loop 모드에서 FlatList에 넘기는 데이터입니다.
+   * [마지막 이미지, ...data, 첫 이미지] 처럼 양 끝에 복제본을 붙입니다.
+   * 복제본에 도착하면 같은 이미지의 진짜 위치로 애니메이션 없이 점프합니다.
+   * loopJump는 코드로 복제본까지 넘기는 중일 때 그 복제본의 위치입니다.
    */
-  private gestureHandlers: GestureResponderHandlers
-  private scaleTarget: number
-  private scaleAnimated: Animated.Value
-  private transformBase: Position
-  private transformAnimated: Animated.ValueXY
-  private childState: ChildState
+  private loopData: { source: ItemT[], list: ItemT[] } | null
+  private loopJump: number | null
+
+  /**
+   * 최상위 뷰에 등록할 터치 핸들러입니다.
+   * 누가 터치를 가져가든 상관없이 손가락이 닿아 있는지만 봅니다. (슬라이드쇼 멈춤용)
+   */
+  private touchHandlers: Required<Pick<ViewProps, "onTouchStart" | "onTouchEnd" | "onTouchCancel">>
+  private touching: boolean
+  /**
+   * react-native-web에서만 불리는 이벤트입니다.
+   * focus된 상태의 키 입력을 받습니다. 마우스 휠은 ZoomableView가 받습니다.
+   */
+  private webHandlers: {
+    onKeyDown: ( event: KeyPressEvent ) => void
+  }
+  /**
+   * 슬라이드쇼 타이머입니다.
+   * autoplayPaused는 pause()로 멈췄는지 여부입니다.
+   */
+  private autoplayTimer: ReturnType<typeof setTimeout> | null
+  private autoplayPaused: boolean
   private childDoingZoom: boolean
+  /**
+   * 확대된 이미지의 가장자리를 넘어서 끌고 있는 거리입니다.
+   * 0이 아니면 이동 대신 FlatList를 직접 스크롤하고 있는 상태입니다.
+   */
+  private pageDrag: number
+  /**
+   * 가장자리 너머로 끌어서 옆 이미지로 넘기는 중입니다.
+   * 이때는 rememberItemZoom이어도 남겨진 이미지의 확대를 초기화합니다.
+   */
+  private pageHandOff: boolean
+  /**
+   * 이미지별 확대 상태입니다. keyOf로 구한 key를 씁니다.
+   * zoomKey는 지금 제스쳐를 받는 이미지의 key이고, emptyZoom은 이미지가 없을 때 씁니다.
+   */
+  private itemZooms: Map<string, ItemZoom>
+  private zoomKey: string | null
+  private emptyZoom: ItemZoom
+  /**
+   * 마지막으로 onZoomChange에 넘긴 값입니다. 같은 값을 두번 알리지 않기 위해 씁니다.
+   */
+  private lastZoomState: ZoomState
+  /**
+   * 위아래로 끌어서 닫기 상태입니다.
+   * dismissAnimated는 끌고 있는 세로 거리이며 배경 투명도도 여기에 맞춰집니다.
+   */
+  private dismissAnimated: Animated.Value
 
   constructor ( props: SwiperViewProps<ItemT> ) {
     super( props );
     this.state = {
       refreshing: null,
-      data: this.props.initialData,
-      currentIndex: this.props.initialScrollIndex,
+      loading: null,
+      tiles: [],
+      zooming: false,
+      overlaysVisible: true,
+      data: this.props.data ?? this.props.initialData ?? [],
+      currentIndex: this.props.index ?? this.props.initialScrollIndex,
     };
-    this.viewPort = {
-      width: this.props.width,
-      height: this.props.height
-    }
+    this.viewPort = this.propsViewPort()
     this.childDoingZoom = false
-    this.scaleTarget = 1
-    this.scaleAnimated = new Animated.Value( this.scaleTarget )
-    this.transformBase = { x: 0, y: 0 }
-
-    /**
-     * 기본 확대는 정 중앙에서 일어납니다.
-     * 만약 중심점이 V(벡터) 만큼 벗어나 있다면
-     * 1) 확대 배율이 없으면 중심점이 어디 찍히든 상관 없습니다.
-     * 2) 확대가 일어나면 현재 배율에서 V가 배율에 따라 변화하는 만큼
-     * ( V * (newScale - curScale) ) 만큼 변화하고 그거의 반대만큼 빼줘야 합니다.
-     * 현재 값 기준 1이 기준이고 scaleTarget 이 변화량인에 이후에 유사 식을 보게 됩니다.
-     */
-    this.transformAnimated = new Animated.ValueXY(
-      positionMult( this.transformBase, 1 - this.scaleTarget ) )
+    this.pageDrag = 0
+    this.pageHandOff = false
+    this.itemZooms = new Map()
+    this.emptyZoom = this.newItemZoom()
+    const initialItem = this.state.data[ this.state.currentIndex ]
+    this.zoomKey = initialItem !== undefined ? this.keyOf( initialItem, this.state.currentIndex ) : null
+    this.lastZoomState = this.getZoomState()
+    this.dismissAnimated = new Animated.Value( 0 )
 
+    this.contentSizes = new Map()
+    this.unmounted = false
+    this.prefetched = new Set()
+    this.tileTimer = null
     this.flatList = createRef()
-    this.rootView = createRef()
-    this.absolutePosition = { x: 0, y: 0 }
+    this.thumbnailList = createRef()
+    this.gestureView = createRef()
+    this.zoomableView = createRef()
+
+    this.loopData = null
+    this.loopJump = null
 
     this.scrollHandlers = {
-      onContentSizeChange: ( width ) => {
-        const newWindowLength = Math.round( width / this.viewPort.width )
-        if ( newWindowLength === this.state.data.length ) {
-          this.flatList.current?.scrollToIndex( { index: this.state.currentIndex, animated: false } )
+      onContentSizeChange: ( width, height ) => {
+        const contentLength = this.pageAxis() === "y" ? height : width
+        const newWindowLength = Math.round( contentLength / this.pageLength() )
+        if ( newWindowLength === this.listData().length ) {
+          this.doScrollToIndex( this.state.currentIndex, false )
           this.setState( { ...this.state, refreshing: null } )
         }
       },
 
       onMomentumScrollEnd: ( event ) => {
-        const newIndex = Math.round( event.nativeEvent.contentOffset.x / this.viewPort.width )
-        if ( this.state.currentIndex !== newIndex ) {
-          if ( newIndex === this.lastIndex() ) {
-            // 이동 완료했더니 끝에 도달했음
-            this.setState( { ...this.state, currentIndex: newIndex, refreshing: RefreshStatus.END } )
-          } else if ( newIndex === 0 ) {
-            // 이동 완료했더니 처음에 도달했음
-            this.setState( { ...this.state, currentIndex: newIndex, refreshing: RefreshStatus.START } )
-          } else {
-            // 이동 완료했으니 currentIndex 값 업데이트
-            this.setState( { ...this.state, currentIndex: newIndex } )
+        const listIndex = Math.round( event.nativeEvent.contentOffset[ this.pageAxis() ] / this.pageLength() )
+        this.doLoopJump( listIndex )
+        this.doIndexChange( this.logicalIndex( listIndex ) )
+      },
+
+      onScroll: ( event ) => {
+        // 코드로 복제본까지 넘기는 중이면 도착했을 때 점프
+        if ( this.loopJump !== null ) {
+          const offset = event.nativeEvent.contentOffset[ this.pageAxis() ]
+          if ( Math.abs( offset - this.loopJump * this.pageLength() ) < 1 ) {
+            this.doLoopJump( this.loopJump )
           }
         }
       },
     }
 
-    this.doingChildAnimation = false
-    this.childState = {
-      status: ChildStatus.OTHER,
-      lastTouch: 0
+    this.touching = false
+    this.autoplayTimer = null
+    this.autoplayPaused = false
+    this.webHandlers = {
+      onKeyDown: ( event ) => {
+        if ( this.handleKeyPress( event.key ) ) {
+          event.preventDefault()
+        }
+      }
     }
-    this.gestureHandlers = {
-      onStartShouldSetResponder: ( event ) => {
-        const ret = this.childDoingZoom
-        if ( ret === false && event.nativeEvent.touches.length === 1 ) {
-          this.onStartTouchResponder( event )
+    this.touchHandlers = {
+      onTouchStart: () => {
+        this.touching = true
+        if ( this.autoplayConfig().pauseOnTouch ) {
+          this.doClearAutoplay()
         }
-        this.doChildStateChange(
-          {
-            ...this.childState,
-            status: ChildStatus.OTHER
-          }
-        )
-        return ret
-      },
-      onMoveShouldSetResponder: ( event ) => {
-        const ret = this.childDoingZoom || event.nativeEvent.touches.length > 1
-        return ret
-      },
-      onResponderTerminationRequest: ( event ) => {
-        const ret = this.childDoingZoom || event.nativeEvent.touches.length > 1
-        return !ret
-      },
-      onStartShouldSetResponderCapture: ( event ) => {
-        const ret = this.childDoingZoom || event.nativeEvent.touches.length > 1
-        return ret
       },
-      onMoveShouldSetResponderCapture: ( event ) => {
-        const ret = this.childDoingZoom || event.nativeEvent.touches.length > 1
-        return ret
-      },
-      onResponderMove: ( event ) => {
-        this.onMoveTouchResponder( event )
-      },
-      onResponderRelease: ( _event ) => {
-        this.doChildStateChange(
-          {
-            ...this.childState,
-            status: ChildStatus.OTHER
-          }
-        )
-        if ( this.scaleTarget > MIN_ZOOM_RESET && this.scaleTarget < MAX_ZOOM_RESET ) {
-          this.doChildReset( SOFT_ANIMIATION_TIME )
+      onTouchEnd: ( event ) => {
+        if ( event.nativeEvent.touches.length === 0 ) {
+          this.touchHandlers.onTouchCancel( event )
         }
       },
-      onResponderReject: ( _event ) => {
-        this.doChildStateChange(
-          {
-            ...this.childState,
-            status: ChildStatus.OTHER
-          }
-        )
-      },
-      onResponderTerminate: ( _event ) => {
-        this.doChildStateChange(
-          {
-            ...this.childState,
-            status: ChildStatus.OTHER
-          }
-        )
-      },
-      onResponderStart: ( event ) => {
-        if ( event.nativeEvent.touches.length === 1 )
-          this.onStartTouchResponder( event )
-        else
-          this.onMoveTouchResponder( event )
+      onTouchCancel: () => {
+        this.touching = false
+        const config = this.autoplayConfig()
+        if ( config.pauseOnTouch ) {
+          this.doScheduleAutoplay( config.resumeDelay )
+        }
       },
     }
   }
 
   /**
-   * 처음 터치를 담당합니다. 터치를 감지를 목적으로 합니다.
-   * @param event 
+   * 현재 이미지에 적용되는 확대 설정입니다.
+   * 기본값 < zoomConfig < 종류별 설정 < getItemZoomConfig 순서로 덮어씁니다.
    */
-  onStartTouchResponder ( event: GestureResponderEvent ) {
-    const timediff = event.timeStamp - this.childState.lastTouch
-    /**
-     * *** 주의사항 ***
-     * 뷰 안에 다시 자식 뷰가 있을 경우
-     * locationX는 최상위 뷰가 아닌 그 안에 있는 자식 뷰의 좌표값을 던집니다.
-     * 최상위 뷰 입장에서는 터치를 인식해도 이를 해석할 방법이 없습니다.
-     * 무조건 절대 좌표계 써야 합니다.
-     */
-    const newPos = {
-      x: event.nativeEvent.pageX - this.absolutePosition.x,
-      y: event.nativeEvent.pageY - this.absolutePosition.y
-    }
-    if ( timediff < DOUBLE_TOUCH_THRES ) {
-      this.childState.lastTouch = 0
-      if ( this.childState.status !== ChildStatus.SINGLE )
-        this.doChildDoubleTouch( newPos, timediff )
-    } else {
-      this.childState.lastTouch = event.timeStamp
-      this.doChildStateChange(
-        {
-          ...this.childState,
-          initial: newPos,
-          last: newPos,
-          timestamp: event.timeStamp,
-          status: ChildStatus.SINGLE
-        }
-      )
+  zoomConfig (): ZoomConfig {
+    const item = this.state.data[ this.state.currentIndex ]
+    const itemConfig = item !== undefined ?
+      this.props.getItemZoomConfig?.( item, this.state.currentIndex ) : undefined
+    const type = this.isMediaItem( item ) ? item.type : undefined
+    return {
+      ...DEFAULT_ZOOM_CONFIG,
+      ...this.props.zoomConfig,
+      ...( type !== undefined ? DEFAULT_MEDIA_ZOOM_CONFIG[ type ] : undefined ),
+      ...( type !== undefined ? this.props.mediaZoomConfig?.[ type ] : undefined ),
+      ...itemConfig
     }
   }
 
   /**
-   * 이동 중인 터치 이벤트를 감지합니다.
-   * 이론상 두손가락 터치는 "move" 에서만 감지되어야 하나
-   * 지금처럼 동적으로 이벤트 처리를 막았다 풀었다 하는 과정에서
-   * "start" 부터 두손가락 터치일 수 있습니다.
-   * 여튼 이 로직에서 생으로 다 처리하니 적절히 호출만 해주면 됩니다.
-   * @param event 
+   * 확대 중인지 여부를 바꿉니다.
+   * 확대가 시작되거나 끝나면 overlay를 다시 그리도록 state에도 반영합니다.
+   * @param zooming 
    */
-  onMoveTouchResponder ( event: GestureResponderEvent ) {
-    switch ( event.nativeEvent.touches.length ) {
-      case 1: {
-        // 1 finger
-        // *** 반드시 절대 좌표계 사용 ***
-        const newPos = {
-          x: event.nativeEvent.pageX - this.absolutePosition.x,
-          y: event.nativeEvent.pageY - this.absolutePosition.y
-        }
-        // 드래그 상황
-        if ( this.childState.status === ChildStatus.SINGLE ) {
-          this.doChildMove( this.childState.last, newPos,
-            this.childState.timestamp - event.timeStamp )
-          this.doChildStateChange(
-            {
-              ...this.childState,
-              last: newPos,
-              timestamp: event.timeStamp,
-              status: ChildStatus.SINGLE
-            }
-          )
-        } else {
-          // 초기화로 넘겨줌
-          this.doChildStateChange(
-            {
-              ...this.childState,
-              initial: newPos,
-              last: newPos,
-              timestamp: event.timeStamp,
-              status: ChildStatus.SINGLE
-            }
-          )
-        }
-        break
-      }
-      case 2: {
-        // 2 finger
-        // *** 반드시 절대 좌표계 사용 ***
-        const touchA = {
-          x: event.nativeEvent.touches[ 0 ].pageX - this.absolutePosition.x,
-          y: event.nativeEvent.touches[ 0 ].pageY - this.absolutePosition.y
-        }
-        const touchB = {
-          x: event.nativeEvent.touches[ 1 ].pageX - this.absolutePosition.x,
-          y: event.nativeEvent.touches[ 1 ].pageY - this.absolutePosition.y
-        }
+  doZoomingChange ( zooming: boolean ) {
+    const prev = this.childDoingZoom
+    this.childDoingZoom = zooming
+    if ( this.state.zooming !== zooming ) {
+      this.setState( { ...this.state, zooming } )
+    }
+    if ( prev !== zooming ) {
+      if ( zooming )
+        this.props.onZoomStart?.()
+      else
+        this.props.onZoomEnd?.()
+    }
+  }
 
-        const newPinch: PinchInfo = {
-          center: {
-            x: ( touchA.x + touchB.x ) / 2,
-            y: ( touchA.y + touchB.y ) / 2
-          },
-          distance: Math.sqrt(
-            Math.pow( touchA.x - touchB.x, 2 ) +
-            Math.pow( touchA.y - touchB.y, 2 )
-          )
-        }
-        if ( this.childState.status === ChildStatus.DOUBLE ) {
-          this.doChildPinchMove(
-            this.childState.last, newPinch,
-            this.childState.timestamp - event.timeStamp
-          )
-          this.doChildStateChange(
-            {
-              ...this.childState,
-              timestamp: event.timeStamp,
-              last: newPinch,
-              status: ChildStatus.DOUBLE
-            }
-          )
-        } else {
-          this.doChildStateChange(
-            {
-              ...this.childState,
-              initial: newPinch,
-              timestamp: event.timeStamp,
-              last: newPinch,
-              status: ChildStatus.DOUBLE
-            }
-          )
-        }
-        break
-      }
-      default: {
-        // unknown
-        this.doChildStateChange(
-          {
-            ...this.childState,
-            status: ChildStatus.OTHER
-          }
-        )
-        break
-      }
+  /**
+   * 확대 목표값이 바뀌었으면 onZoomChange로 알립니다.
+   */
+  doZoomStateNotify () {
+    const zoom = this.getZoomState()
+    const last = this.lastZoomState
+    if ( zoom.scale === last.scale && zoom.translateX === last.translateX && zoom.translateY === last.translateY )
+      return
+    this.lastZoomState = zoom
+    this.props.onZoomChange?.( zoom )
+  }
+
+  /**
+   * 한번 터치입니다.
+   * @param point 
+   */
+  doSingleTap ( point: TapPoint ) {
+    if ( this.props.toggleOverlaysOnTap ) {
+      this.setState( { ...this.state, overlaysVisible: !this.state.overlaysVisible } )
+    }
+    const item = this.state.data[ this.state.currentIndex ]
+    if ( item !== undefined ) {
+      this.props.onTap?.( item, this.state.currentIndex, point )
     }
   }
 
-  doChildStateChange ( to: ChildState ) {
-    if ( this.childState.status !== to.status ) {
-      if ( to.status !== ChildStatus.SINGLE ) {
-        this.childState.lastTouch = 0
-      }
+  /**
+   * 두번 터치입니다. 기본 확대는 ZoomableView가 합니다.
+   * @param pos 컴포넌트 기준 좌표
+   */
+  doDoubleTap ( pos: Position ) {
+    const item = this.state.data[ this.state.currentIndex ]
+    if ( item !== undefined ) {
+      this.props.onDoubleTap?.( item, this.state.currentIndex, this.toImagePoint( pos ) )
+    }
+  }
 
-      if ( to.status === ChildStatus.DOUBLE ) {
-        this.childDoingZoom = true
-        this.flatList.current?.scrollToIndex( { index: this.state.currentIndex, animated: false } )
-      }
+  /**
+   * 길게 누르기입니다. 이후 손을 떼도 한번 터치로 보지 않습니다.
+   * @param pos 컴포넌트 기준 좌표
+   */
+  doLongPress ( pos: Position ) {
+    const item = this.state.data[ this.state.currentIndex ]
+    if ( item !== undefined ) {
+      this.props.onLongPress?.( item, this.state.currentIndex, this.toImagePoint( pos ) )
     }
-    this.childState = to
   }
 
-  doChildReset ( timing: number ) {
-    this.scaleTarget = 1
-    this.transformBase.x = 0
-    this.transformBase.y = 0
-    this.doChildAnimation( timing, () => {
-      this.childDoingZoom = false
-    }, true )
+  /**
+   * 컴포넌트 기준 좌표를 현재 이미지 기준 좌표로 바꿉니다.
+   * 현재 배율과 이동량을 되돌린 뒤, 화면에 맞춰 그려진 이미지 영역을 원본 크기로 늘립니다.
+   * @param pos 
+   */
+  toImagePoint ( pos: Position ): TapPoint {
+    const center = this.centerPosition()
+    const zoom = this.getZoomState()
+    const unzoomed = {
+      x: ( pos.x - center.x - zoom.translateX ) / zoom.scale + center.x,
+      y: ( pos.y - center.y - zoom.translateY ) / zoom.scale + center.y
+    }
+    const fitted = this.fittedContentSize()
+    const size = this.contentSize( this.state.currentIndex )
+    const ratio = size !== undefined && size.width > 0 && size.height > 0 ? size.width / fitted.width : 1
+    return {
+      x: pos.x,
+      y: pos.y,
+      imageX: ( unzoomed.x - ( this.viewPort.width - fitted.width ) / 2 ) * ratio,
+      imageY: ( unzoomed.y - ( this.viewPort.height - fitted.height ) / 2 ) * ratio
+    }
+  }
+
+  /**
+   * 넘기는 방향의 축입니다. 세로 모드면 y, 아니면 x 입니다.
+   */
+  pageAxis (): "x" | "y" {
+    return this.props.orientation === "vertical" ? "y" : "x"
+  }
+
+  /**
+   * 넘기는 방향과 수직인 축입니다. 닫기 제스쳐에 씁니다.
+   */
+  crossAxis (): "x" | "y" {
+    return this.props.orientation === "vertical" ? "x" : "y"
+  }
+
+  /**
+   * 이미지 한장이 넘기는 방향으로 차지하는 길이입니다.
+   */
+  pageLength (): number {
+    return this.pageAxis() === "y" ? this.viewPort.height : this.viewPort.width
+  }
+
+  /**
+   * 넘기는 방향과 수직인 방향의 화면 길이입니다.
+   */
+  crossLength (): number {
+    return this.pageAxis() === "y" ? this.viewPort.width : this.viewPort.height
+  }
+
+  /**
+   * 끌어서 닫기를 시작할지 판단합니다.
+   * onDismiss가 있고, 한손가락으로 넘기는 방향과 수직으로 충분히 움직였을 때 시작합니다.
+   * 확대 중이거나 두손가락이면 ZoomableView가 묻지 않습니다.
+   * @param move 터치 시작점부터 움직인 거리
+   */
+  shouldStartDismiss ( move: Position ) {
+    if ( this.props.onDismiss === undefined ) {
+      return false
+    }
+    const cross = Math.abs( move[ this.crossAxis() ] )
+    return cross > DISMISS_SLOP && cross > Math.abs( move[ this.pageAxis() ] ) * 2
   }
 
-  doChildAnimation ( timing: number, callback: () => void = () => { }, override: boolean = false ) {
-    if ( this.doingChildAnimation === true && !override )
+  /**
+   * 확대가 TILE_DELAY 동안 멈춰 있으면 보이는 조각을 다시 계산합니다.
+   */
+  doScheduleTiles () {
+    if ( this.tileTimer !== null )
+      clearTimeout( this.tileTimer )
+    // 옆 이미지로 끌고 있는 동안에는 이미지가 화면에서 움직이므로 그리지 않음
+    if ( this.pageDrag !== 0 ) {
+      this.tileTimer = null
       return
-    if ( override ) {
-      this.scaleAnimated.stopAnimation()
-      this.transformAnimated.stopAnimation()
-    }
-    this.doingChildAnimation = true
-    this.childDoingZoom = true
-
-    const boundScaleTarget = Math.max( Math.min( this.scaleTarget, MAX_ZOOM ), MIN_ZOOM )
-    this.scaleTarget = boundScaleTarget
-
-    const boundDisposition = positionMult( this.transformBase, 1 )
-    const maxX = ( this.viewPort.width * Math.abs( 1 - boundScaleTarget ) ) / 2
-    const maxY = ( this.viewPort.height * Math.abs( 1 - boundScaleTarget ) ) / 2
-    boundDisposition.x = Math.max( Math.min( boundDisposition.x, maxX ), -maxX )
-    boundDisposition.y = Math.max( Math.min( boundDisposition.y, maxY ), -maxY )
-    this.transformBase = boundDisposition
-
-    Animated.parallel(
-      [
-        Animated.timing(
-          this.scaleAnimated,
-          {
-            duration: timing,
-            toValue: this.scaleTarget,
-            useNativeDriver: true,
-          }
-        ),
-        Animated.timing(
-          this.transformAnimated,
-          {
-            duration: timing,
-            toValue: this.transformBase,
-            useNativeDriver: true,
-          }
-        )
-      ],
-      {
-        stopTogether: true
+    }
+    this.tileTimer = setTimeout( () => {
+      this.tileTimer = null
+      this.doUpdateTiles()
+    }, TILE_DELAY )
+  }
+
+  /**
+   * 그려둔 조각을 지웁니다. 움직이는 동안에는 조각이 이미지와 어긋나므로 기본 이미지만 보여줍니다.
+   */
+  doClearTiles () {
+    if ( this.tileTimer !== null ) {
+      clearTimeout( this.tileTimer )
+      this.tileTimer = null
+    }
+    if ( this.state.tiles.length > 0 ) {
+      this.setState( { ...this.state, tiles: [] } )
+    }
+  }
+
+  doUpdateTiles () {
+    const tiles = this.visibleTiles()
+    if ( tiles.length > 0 || this.state.tiles.length > 0 ) {
+      this.setState( { ...this.state, tiles } )
+    }
+  }
+
+  /**
+   * 현재 이미지에서 화면에 보이는 조각입니다. 조각 정보가 없으면 비어 있습니다.
+   */
+  visibleTiles (): Tile[] {
+    const item = this.state.data[ this.state.currentIndex ]
+    if ( !this.isPhotoObject( item ) || item.tiles === undefined )
+      return []
+    return visibleTiles( item.tiles, this.getZoomState(), this.fittedContentSize(), this.viewPort,
+      PixelRatio.get() )
+  }
+
+  /**
+   * index 이미지의 원본 크기입니다. 아직 모르면 undefined 입니다.
+   * @param index 
+   */
+  contentSize ( index: number ): Size | undefined {
+    const item = this.state.data[ index ]
+    if ( item === undefined )
+      return undefined
+    const supplied = this.props.getItemContentSize?.( item, index )
+    if ( supplied !== undefined )
+      return supplied
+    return this.contentSizes.get( this.keyOf( item, index ) )
+  }
+
+  /**
+   * index 이미지의 원본 크기를 읽어서 캐시에 넣습니다.
+   * LocalResource는 바로 알 수 있고, uri는 Image.getSize로 비동기로 읽습니다.
+   * 동영상과 custom item은 width, height를 준 경우에만 알 수 있습니다.
+   * @param index 
+   */
+  loadContentSize ( index: number ) {
+    const item = this.state.data[ index ]
+    if ( item === undefined || this.contentSize( index ) !== undefined )
+      return
+    const key = this.keyOf( item, index )
+    if ( typeof item === "number" ) {
+      const source = Image.resolveAssetSource( item )
+      if ( source )
+        this.contentSizes.set( key, { width: source.width, height: source.height } )
+    } else if ( this.isPhotoObject( item ) ) {
+      if ( item.width !== undefined && item.height !== undefined ) {
+        this.contentSizes.set( key, { width: item.width, height: item.height } )
+      } else {
+        Image.getSize( item.uri, ( width, height ) => {
+          if ( this.unmounted )
+            return
+          this.contentSizes.set( key, { width, height } )
+          // 제스쳐를 받는 ZoomableView에 새 이동 범위를 넘겨줌
+          if ( this.zoomKey === key )
+            this.forceUpdate()
+        }, () => { } )
       }
-    ).start( () => {
-      callback()
-      this.doingChildAnimation = false
-    } )
+    } else if ( this.isMediaItem( item ) ) {
+      if ( item.width !== undefined && item.height !== undefined )
+        this.contentSizes.set( key, { width: item.width, height: item.height } )
+    }
+  }
+
+  /**
+   * 배율 1일 때 화면에 실제로 그려지는 현재 이미지의 크기입니다.
+   * resizeMode "contain" 기준이며, 원본 크기를 모르면 화면 크기로 봅니다.
+   */
+  fittedContentSize (): Size {
+    return fitContentSize( this.contentSize( this.state.currentIndex ), this.viewPort )
   }
 
   centerPosition (): Position {
@@ -522,134 +784,974 @@ export default class SwiperViewComponent<ItemT = LocalResource | PhotoObject> ex
       y: this.viewPort.height / 2
     }
   }
-  getCenterDisposition ( pos: Position ): Position {
-    const center = this.centerPosition()
-    return {
-      x: pos.x - center.x,
-      y: pos.y - center.y
+
+  /**
+   * 확대된 이미지의 가장자리 너머로 끈 만큼 FlatList를 직접 스크롤합니다.
+   * ZoomableView의 onEdgeOverflow로 불리며, 넘기는 방향에 옆 이미지가 있을 때만 받아들입니다.
+   * @param overflow 가장자리 너머로 끈 거리
+   */
+  doPageDrag ( overflow: Position ): Position {
+    const axis = this.pageAxis()
+    const drag = overflow[ axis ]
+    const accepted = drag > 0 ? this.isLooping() || this.state.currentIndex > 0 :
+      drag < 0 ? this.isLooping() || this.state.currentIndex < this.lastIndex() : true
+    const pageDrag = accepted ? drag : 0
+    if ( pageDrag !== 0 )
+      this.doClearTiles()
+    if ( pageDrag !== this.pageDrag ) {
+      this.pageDrag = pageDrag
+      this.flatList.current?.scrollToOffset( {
+        offset: this.listIndex( this.state.currentIndex ) * this.pageLength() - this.pageDrag,
+        animated: false
+      } )
     }
+    return axis === "x" ? { x: pageDrag, y: 0 } : { x: 0, y: pageDrag }
   }
 
-  doChildDoubleTouch ( secondTouch: Position, timediff: number ) {
-    if ( !this.childDoingZoom ) {
-      const scale = DEFAULT_ZOOM
-      const center = this.getCenterDisposition( secondTouch )
-      this.doChangeScale( { x: 0, y: 0 }, scale, center )
-      this.doChildAnimation( SOFT_ANIMIATION_TIME, () => { }, true )
+  /**
+   * 가장자리 너머로 끌던 손을 뗐을 때 옆 이미지로 넘길지, 제자리로 돌아갈지 정합니다.
+   * 넘어가면 rememberItemZoom이어도 doZoomItemChange에서 남겨진 이미지의 확대가 초기화됩니다.
+   * @param velocity 넘기는 방향의 속도 (px/ms)
+   */
+  doPageDragEnd ( velocity: number ) {
+    const drag = this.pageDrag
+    this.pageDrag = 0
+    const flung = Math.abs( velocity ) > MIN_FLING_VELOCITY && velocity * drag > 0
+    if ( Math.abs( drag ) > this.pageLength() * PAGE_DRAG_THRES || flung ) {
+      this.pageHandOff = true
+      this.goToIndex( this.state.currentIndex + ( drag < 0 ? 1 : -1 ) )
     } else {
-      this.doChildReset( SOFT_ANIMIATION_TIME )
+      this.doScrollToIndex( this.state.currentIndex, true )
+      this.doScheduleTiles()
     }
   }
 
-  doChildPinchMove ( prev: PinchInfo, next: PinchInfo, timeDiff: number ) {
-    const newDisposition = {
-      x: ( next.center.x - prev.center.x ),
-      y: ( next.center.y - prev.center.y )
+  /**
+   * 닫기 제스쳐에서 손을 뗐을 때 닫을지, 제자리로 돌아갈지 정합니다.
+   * 충분히 멀리 끌었거나 빠르게 튕겼으면 화면 밖으로 내보낸 뒤 onDismiss를 부르고, 위치를 원래대로 되돌립니다.
+   * @param velocity 넘기는 방향과 수직인 방향의 속도 (px/ms)
+   */
+  doDismissEnd ( velocity: number ) {
+    this.dismissAnimated.stopAnimation( ( distance ) => {
+      const flung = Math.abs( velocity ) > DISMISS_VELOCITY_THRES && velocity * distance > 0
+      const length = this.crossLength()
+      if ( Math.abs( distance ) > length * DISMISS_DISTANCE_THRES || flung ) {
+        Animated.timing( this.dismissAnimated, {
+          toValue: distance < 0 ? -length : length,
+          duration: this.zoomConfig().animationDuration,
+          useNativeDriver: true,
+        } ).start( () => {
+          this.props.onDismiss?.()
+          // 닫지 않고 계속 쓰는 경우에도 다시 보이도록 제자리로 돌려둠
+          this.dismissAnimated.setValue( 0 )
+        } )
+      } else {
+        Animated.spring( this.dismissAnimated, {
+          toValue: 0,
+          // spring은 초당 속도를 받음
+          velocity: velocity * 1000,
+          bounciness: 0,
+          useNativeDriver: true,
+        } ).start()
+      }
+    } )
+  }
+
+  lastIndex () {
+    let maxLength = this.state.data.length
+    if ( maxLength > 0 ) {
+      maxLength -= 1
     }
-    const updateScale = next.distance / prev.distance
-    this.doChangeScale( newDisposition, updateScale, this.getCenterDisposition( prev.center ) )
-    this.doChildAnimation( timeDiff )
+    return maxLength
   }
+
   /**
-   * 
-   * @param updateDisposition 현재 화면을 얼마나 이동시킬지 (보통 next - prev)
-   * @param updateScale 현재 기준 확대/축소 비율
-   * @param updateCenter 혹시 기준점이 변경되었다면 기입
+   * currentIndex를 갱신합니다.
+   * 끝이나 처음에 도달했다면 refresh 상태도 같이 바꿉니다.
+   * @param newIndex 
    */
-  doChangeScale ( updateDisposition: Position, updateScale: number, updateCenter?: Position ) {
-    const newScale = this.scaleTarget * updateScale;
+  doIndexChange ( newIndex: number ) {
+    if ( this.state.currentIndex !== newIndex ) {
+      if ( this.isLooping() ) {
+        // loop 중에는 처음/끝이 없음
+        this.setState( { ...this.state, currentIndex: newIndex } )
+      } else if ( newIndex === this.lastIndex() && this.props.onEndReached === undefined ) {
+        // 이동 완료했더니 끝에 도달했음
+        this.setState( { ...this.state, currentIndex: newIndex, refreshing: RefreshStatus.END } )
+      } else if ( newIndex === 0 && this.props.onStartReached === undefined ) {
+        // 이동 완료했더니 처음에 도달했음
+        this.setState( { ...this.state, currentIndex: newIndex, refreshing: RefreshStatus.START } )
+      } else {
+        // 이동 완료했으니 currentIndex 값 업데이트
+        this.setState( { ...this.state, currentIndex: newIndex } )
+      }
+    }
+  }
 
-    const origDisposition = this.transformBase
-    const centerToCenterDisposition = {
-      x: 0,
-      y: 0
+  /**
+   * 해당 index의 이미지로 이동합니다.
+   * 범위를 벗어난 index는 처음/끝으로 맞춰집니다. loop 중에는 반대쪽으로 이어집니다.
+   * 떠나는 이미지의 확대 상태는 doZoomItemChange에서 처리합니다.
+   * refresh 중에는 무시합니다.
+   * @param index 
+   * @param animated 
+   */
+  goToIndex ( index: number, animated: boolean = true ) {
+    if ( this.state.refreshing !== null || this.state.data.length === 0 )
+      return
+    const target = Math.round( index )
+    if ( this.isLooping() ) {
+      const count = this.state.data.length
+      const newIndex = ( ( target % count ) + count ) % count
+      if ( animated && target === this.state.currentIndex + 1 && newIndex === 0 ) {
+        // 끝에서 한칸 넘기면 뒤쪽 복제본까지 넘긴 뒤 점프
+        this.loopJump = count + 1
+        this.flatList.current?.scrollToIndex( { index: this.loopJump, animated } )
+      } else if ( animated && target === this.state.currentIndex - 1 && newIndex === count - 1 ) {
+        // 처음에서 한칸 넘기면 앞쪽 복제본까지 넘긴 뒤 점프
+        this.loopJump = 0
+        this.flatList.current?.scrollToIndex( { index: this.loopJump, animated } )
+      } else {
+        this.doScrollToIndex( newIndex, animated )
+      }
+      this.doIndexChange( newIndex )
+      return
     }
-    if ( updateCenter !== undefined ) {
-      centerToCenterDisposition.x = updateCenter.x - origDisposition.x
-      centerToCenterDisposition.y = updateCenter.y - origDisposition.y
+    const newIndex = Math.max( Math.min( target, this.lastIndex() ), 0 )
+    this.doScrollToIndex( newIndex, animated )
+    this.doIndexChange( newIndex )
+  }
+
+  /**
+   * loop 모드인지 여부입니다. 이미지가 2장 이상일 때만 이어집니다.
+   */
+  isLooping (): boolean {
+    return this.props.loop === true && this.state.data.length > 1
+  }
+
+  /**
+   * FlatList에 실제로 넘기는 데이터입니다. loop 중에는 양 끝에 복제본이 붙습니다.
+   */
+  listData (): ItemT[] {
+    if ( !this.isLooping() )
+      return this.state.data
+    if ( this.loopData === null || this.loopData.source !== this.state.data ) {
+      const data = this.state.data
+      this.loopData = {
+        source: data,
+        list: [ data[ data.length - 1 ], ...data, data[ 0 ] ]
+      }
     }
+    return this.loopData.list
+  }
 
-    const newDisposition = positionMult( updateDisposition, 1 )
+  /**
+   * 이미지 index(currentIndex 등)를 FlatList 안의 index로 바꿉니다.
+   * @param index 
+   */
+  listIndex ( index: number ): number {
+    return this.isLooping() ? index + 1 : index
+  }
 
-    let newCenterDisposition = positionMult( centerToCenterDisposition, ( 1 - updateScale ) )
+  /**
+   * FlatList 안의 index를 이미지 index로 바꿉니다. 복제본은 원본의 index가 됩니다.
+   * @param listIndex 
+   */
+  logicalIndex ( listIndex: number ): number {
+    if ( !this.isLooping() )
+      return listIndex
+    const count = this.state.data.length
+    return ( ( ( listIndex - 1 ) % count ) + count ) % count
+  }
+
+  /**
+   * 이미지 index로 FlatList를 스크롤합니다.
+   * @param index 
+   * @param animated 
+   */
+  doScrollToIndex ( index: number, animated: boolean ) {
+    this.loopJump = null
+    this.flatList.current?.scrollToIndex( { index: this.listIndex( index ), animated } )
+  }
 
-    const disposition = {
-      x: origDisposition.x + newDisposition.x + newCenterDisposition.x,
-      y: origDisposition.y + newDisposition.y + newCenterDisposition.y,
+  /**
+   * 복제본에 도착했으면 같은 이미지의 진짜 위치로 애니메이션 없이 점프합니다.
+   * @param listIndex 
+   */
+  doLoopJump ( listIndex: number ) {
+    this.loopJump = null
+    if ( !this.isLooping() )
+      return
+    if ( listIndex === 0 || listIndex === this.state.data.length + 1 ) {
+      this.doScrollToIndex( this.logicalIndex( listIndex ), false )
     }
+  }
+
+  next ( animated: boolean = true ) {
+    this.goToIndex( this.state.currentIndex + 1, animated )
+  }
 
-    this.transformBase = disposition
-    this.scaleTarget = newScale;
+  prev ( animated: boolean = true ) {
+    this.goToIndex( this.state.currentIndex - 1, animated )
   }
 
-  doChildMove ( prev: Position, next: Position, timeDiff: number ) {
-    if ( this.childDoingZoom && this.scaleTarget !== 1 ) {
-      const newDisposition = {
-        x: ( next.x - prev.x ),
-        y: ( next.y - prev.y )
+  /**
+   * 키 입력을 처리합니다. key는 KeyboardEvent.key 값("ArrowLeft", "+" 등)입니다.
+   * 처리한 키면 true를 돌려줍니다.
+   * @param key 
+   */
+  handleKeyPress ( key: string ): boolean {
+    const config = this.zoomConfig()
+    const zoomed = this.getZoomState().scale !== 1
+    const axis = this.pageAxis()
+    switch ( key ) {
+      case "ArrowLeft":
+      case "ArrowUp":
+      case "ArrowRight":
+      case "ArrowDown": {
+        const keyAxis = key === "ArrowLeft" || key === "ArrowRight" ? "x" : "y"
+        const forward = key === "ArrowRight" || key === "ArrowDown"
+        if ( zoomed && this.doKeyboardPan( keyAxis, forward ) )
+          return true
+        if ( keyAxis !== axis )
+          return false
+        if ( forward )
+          this.next()
+        else
+          this.prev()
+        return true
+      }
+      case "PageDown":
+        this.next()
+        return true
+      case "PageUp":
+        this.prev()
+        return true
+      case "Home":
+        this.goToIndex( 0 )
+        return true
+      case "End":
+        this.goToIndex( this.lastIndex() )
+        return true
+      case "+":
+      case "=":
+      case "-": {
+        if ( !config.enabled )
+          return false
+        const step = key === "-" ? 1 / KEYBOARD_ZOOM_STEP : KEYBOARD_ZOOM_STEP
+        const scale = this.getZoomState().scale * step
+        if ( scale <= 1 ) {
+          this.resetZoom()
+        } else {
+          this.zoomTo( scale )
+        }
+        return true
       }
-      const updateScale = 1
-      this.doChangeScale( newDisposition, updateScale )
-      this.doChildAnimation( timeDiff )
+      case "0":
+        this.resetZoom()
+        return true
+      case "Escape":
+        if ( this.props.onDismiss === undefined )
+          return false
+        this.props.onDismiss()
+        return true
     }
+    return false
   }
 
-  lastIndex () {
-    let maxLength = this.state.data.length
-    if ( maxLength > 0 ) {
-      maxLength -= 1
+  /**
+   * 확대된 이미지를 방향키로 이동합니다. 이미 가장자리라 움직일 수 없으면 false를 돌려줍니다.
+   * @param axis 
+   * @param forward 오른쪽 혹은 아래쪽이면 true
+   */
+  doKeyboardPan ( axis: "x" | "y", forward: boolean ): boolean {
+    const length = axis === "x" ? this.viewPort.width : this.viewPort.height
+    // 오른쪽을 보려면 이미지는 왼쪽으로 움직여야 함
+    const distance = ( forward ? -1 : 1 ) * length * KEYBOARD_PAN_STEP
+    const delta = axis === "x" ? { x: distance, y: 0 } : { x: 0, y: distance }
+    return this.zoomableView.current?.panBy( delta ) ?? false
+  }
+
+  /**
+   * 키 입력을 받을 수 있도록 focus 합니다.
+   */
+  focus () {
+    this.gestureView.current?.focus()
+  }
+
+  /**
+   * 현재 이미지를 scale 배율로 확대/축소합니다.
+   * 제스쳐와 마찬가지로 ZoomableView에서 minScale/maxScale 범위로 맞춰집니다.
+   * 확대가 꺼진 이미지에서는 무시합니다.
+   * @param scale 원본 기준 배율
+   * @param focalPoint 확대 기준점 (컴포넌트 기준 좌표). 없으면 현재 화면 중앙입니다.
+   * @param animated 
+   */
+  zoomTo ( scale: number, focalPoint?: Position, animated: boolean = true ) {
+    this.zoomableView.current?.zoomTo( scale, focalPoint, animated )
+  }
+
+  resetZoom ( animated: boolean = true ) {
+    this.zoomableView.current?.resetZoom( animated )
+  }
+
+  getCurrentIndex (): number {
+    return this.state.currentIndex
+  }
+
+  getZoomState (): ZoomState {
+    return { ...this.currentItemZoom().zoom }
+  }
+
+  /**
+   * 현재 이미지의 확대 애니메이션 값입니다.
+   * 이미지별로 따로 있으므로 현재 이미지가 바뀌면 다시 가져와야 합니다.
+   */
+  getAnimatedZoom (): AnimatedZoom {
+    return this.currentItemZoom().animatedZoom
+  }
+
+  /**
+   * 넘겼을 때 스크린 리더가 현재 위치를 읽어줍니다.
+   */
+  doAnnounceIndex () {
+    const item = this.state.data[ this.state.currentIndex ]
+    if ( item === undefined )
+      return
+    const index = this.state.currentIndex
+    const count = this.state.data.length
+    const announcement = this.props.getAccessibilityAnnouncement !== undefined ?
+      this.props.getAccessibilityAnnouncement( index, count, item ) :
+      `image ${ index + 1 } of ${ count }`
+    AccessibilityInfo.announceForAccessibility( announcement )
+  }
+
+  /**
+   * 스크린 리더 동작입니다.
+   * increment, decrement는 adjustable 요소를 위아래로 쓸었을 때 불립니다.
+   * @param event 
+   */
+  onAccessibilityAction ( event: AccessibilityActionEvent ) {
+    switch ( event.nativeEvent.actionName ) {
+      case "increment":
+        this.next()
+        break
+      case "decrement":
+        this.prev()
+        break
+      case "zoomIn":
+        this.zoomTo( this.getZoomState().scale * ACCESSIBILITY_ZOOM_STEP )
+        break
+      case "zoomOut":
+        this.zoomTo( Math.max( this.getZoomState().scale / ACCESSIBILITY_ZOOM_STEP, 1 ) )
+        break
+      case "resetZoom":
+        this.resetZoom()
+        break
     }
-    return maxLength
   }
 
-  async componentDidUpdate ( _prevProps: SwiperViewProps<ItemT>, prevState: SwiperViewState<ItemT> ) {
+  accessibilityActions () {
+    const actions = [
+      { name: "increment" },
+      { name: "decrement" }
+    ]
+    if ( !this.zoomConfig().enabled )
+      return actions
+    return [
+      ...actions,
+      { name: "zoomIn", label: "Zoom in" },
+      { name: "zoomOut", label: "Zoom out" },
+      { name: "resetZoom", label: "Reset zoom" }
+    ]
+  }
+
+  /**
+   * 슬라이드쇼 설정입니다. autoplay가 꺼져 있어도 기본값을 돌려줍니다.
+   */
+  autoplayConfig (): AutoplayConfig {
+    const autoplay = this.props.autoplay
+    return {
+      ...DEFAULT_AUTOPLAY_CONFIG,
+      ...( typeof autoplay === "object" ? autoplay : undefined )
+    }
+  }
+
+  /**
+   * 슬라이드쇼가 돌아가야 하는 상태인지 여부입니다.
+   * 확대나 터치로 잠깐 멈춘 것은 여기에 포함되지 않습니다.
+   */
+  isPlaying (): boolean {
+    const autoplay = this.props.autoplay
+    return autoplay !== undefined && autoplay !== false && !this.autoplayPaused
+  }
+
+  play () {
+    this.autoplayPaused = false
+    this.doScheduleAutoplay( this.autoplayConfig().interval )
+  }
+
+  pause () {
+    this.autoplayPaused = true
+    this.doClearAutoplay()
+  }
+
+  /**
+   * delay 뒤에 다음 이미지로 넘어가도록 타이머를 겁니다. 이미 걸려있으면 다시 겁니다.
+   * @param delay 
+   */
+  doScheduleAutoplay ( delay: number ) {
+    this.doClearAutoplay()
+    if ( this.isPlaying() ) {
+      this.autoplayTimer = setTimeout( () => this.doAutoplayTick(), delay )
+    }
+  }
+
+  doClearAutoplay () {
+    if ( this.autoplayTimer !== null ) {
+      clearTimeout( this.autoplayTimer )
+      this.autoplayTimer = null
+    }
+  }
+
+  /**
+   * 슬라이드쇼로 한칸 넘깁니다.
+   * 확대 중이거나 터치 중이면 넘기지 않고 다음 간격까지 기다립니다.
+   */
+  doAutoplayTick () {
+    this.autoplayTimer = null
+    const config = this.autoplayConfig()
+    const count = this.state.data.length
+    if ( this.childDoingZoom || this.touching || this.state.refreshing !== null || count < 2 ) {
+      this.doScheduleAutoplay( config.interval )
+      return
+    }
+    let target = this.state.currentIndex + ( config.direction === "backward" ? -1 : 1 )
+    if ( !this.isLooping() ) {
+      // 끝에 도달하면 반대쪽 끝으로 돌아감
+      target = ( target + count ) % count
+    }
+    this.goToIndex( target )
+    const newIndex = ( ( target % count ) + count ) % count
+    this.props.onAutoplayTick?.( newIndex, this.state.data[ newIndex ] )
+    this.doScheduleAutoplay( config.interval )
+  }
+
+  /**
+   * 처음/끝에 가까워졌으면 onStartReached/onEndReached로 이미지를 더 불러옵니다.
+   * 불러오는 동안은 다시 부르지 않습니다.
+   */
+  async doLoadMore () {
+    if ( this.state.loading !== null || this.state.refreshing !== null || this.state.data.length === 0 ||
+      this.isLooping() )
+      return
+    const threshold = this.props.loadThreshold
+    let status: RefreshStatus
+    let loader: ( data: ItemT[] ) => PromiseLike<ItemT[]>
+    if ( this.props.onEndReached !== undefined && this.state.currentIndex >= this.lastIndex() - threshold ) {
+      status = RefreshStatus.END
+      loader = this.props.onEndReached
+    } else if ( this.props.onStartReached !== undefined && this.state.currentIndex <= threshold ) {
+      status = RefreshStatus.START
+      loader = this.props.onStartReached
+    } else {
+      return
+    }
+
+    this.setState( { ...this.state, loading: status } )
+    const prevData = this.state.data
+    let newData: ItemT[]
+    try {
+      newData = await loader( prevData )
+    } catch ( error ) {
+      if ( this.unmounted )
+        return
+      // 여기서 다시 던지면 아무도 받지 않으므로 알려주기만 함
+      this.setState( { ...this.state, loading: null } )
+      this.props.onLoadError?.( error, status )
+      return
+    }
+    if ( this.unmounted )
+      return
+    if ( this.state.data !== prevData || newData.length === prevData.length ) {
+      // 불러오는 동안 refresh 등으로 데이터가 바뀌었으면 버림
+      // 더 붙은게 없으면 다음 이동 전까지는 다시 부르지 않음
+      this.setState( { ...this.state, loading: null } )
+      return
+    }
+    // 앞에 붙었으면 offset은 그대로라 다른 이미지가 보이므로, 그려지자마자 newIndex로 다시 스크롤함
+    const newIndex = this.anchorIndex( prevData, newData, status )
+    this.setState( { ...this.state, loading: null, data: newData, currentIndex: newIndex }, () => {
+      this.doScrollToIndex( newIndex, false )
+    } )
+  }
+
+  /**
+   * 데이터가 바뀐 뒤에도 보고 있던 이미지를 가리키는 index를 구합니다.
+   * id가 있으면 id로 찾고, 없으면 앞에 붙은 개수만큼 밀어줍니다.
+   * @param prevData 
+   * @param newData 
+   * @param status 어느 쪽에 붙였는지
+   */
+  anchorIndex ( prevData: ItemT[], newData: ItemT[], status: RefreshStatus ): number {
+    const current = prevData[ this.state.currentIndex ]
+    if ( this.hasId( current ) ) {
+      const found = newData.findIndex( ( item ) => this.hasId( item ) && item.id === current.id )
+      if ( found >= 0 )
+        return found
+    }
+    const shift = status === RefreshStatus.START ? newData.length - prevData.length : 0
+    return Math.max( Math.min( this.state.currentIndex + shift, newData.length - 1 ), 0 )
+  }
+
+  /**
+   * props로 받은 크기입니다.
+   * 없는 값은 처음 그려지기 전까지만 화면 크기로 짐작하고, 그려진 뒤에는 onLayout의 실제 크기를 씁니다.
+   */
+  propsViewPort (): Size {
+    const window = Dimensions.get( "window" )
+    return {
+      width: this.props.width ?? window.width,
+      height: this.props.height ?? window.height
+    }
+  }
+
+  /**
+   * 화면 크기가 바뀌었습니다. (화면 회전, 분할 화면, props 변경 등)
+   * viewPort를 다시 잡고, 보고 있던 이미지에 그대로 머물도록 다시 스크롤합니다.
+   * 확대 중이었다면 새 크기를 받은 ZoomableView가 이동 범위를 다시 맞춥니다.
+   * @param size 
+   */
+  doViewPortChange ( size: Size ) {
+    if ( size.width === this.viewPort.width && size.height === this.viewPort.height )
+      return
+    this.viewPort = { ...size }
+    this.forceUpdate( () => {
+      this.doScrollToIndex( this.state.currentIndex, false )
+    } )
+  }
+
+  componentDidMount () {
+    this.loadContentSize( this.state.currentIndex )
+    this.doLoadMore()
+    this.doPrefetch()
+    this.doScheduleAutoplay( this.autoplayConfig().interval )
+  }
+
+  /**
+   * 현재 이미지 앞뒤 prefetchCount개의 uri 이미지를 미리 받아둡니다.
+   */
+  doPrefetch () {
+    const count = this.props.prefetchCount
+    for ( let offset = -count; offset <= count; offset++ ) {
+      const index = this.isLooping() ?
+        ( this.state.currentIndex + offset + this.state.data.length ) % this.state.data.length :
+        this.state.currentIndex + offset
+      const item = this.state.data[ index ]
+      if ( offset === 0 || !this.isPhotoObject( item ) || this.prefetched.has( item.uri ) )
+        continue
+      this.prefetched.add( item.uri )
+      Promise.resolve( Image.prefetch( item.uri ) ).catch( () => {
+        // 실패하면 다음에 다시 시도
+        this.prefetched.delete( item.uri )
+      } )
+    }
+  }
+
+  componentWillUnmount () {
+    this.unmounted = true
+    this.doClearAutoplay()
+    if ( this.tileTimer !== null )
+      clearTimeout( this.tileTimer )
+  }
+
+  newItemZoom (): ItemZoom {
+    return {
+      animatedZoom: {
+        scale: new Animated.Value( 1 ),
+        translate: new Animated.ValueXY( { x: 0, y: 0 } )
+      },
+      zoom: { ...IDENTITY_ZOOM }
+    }
+  }
+
+  /**
+   * 이미지별 확대 상태를 가져옵니다. 없으면 원래 크기로 새로 만듭니다.
+   * @param key 
+   */
+  itemZoom ( key: string ): ItemZoom {
+    let zoom = this.itemZooms.get( key )
+    if ( zoom === undefined ) {
+      zoom = this.newItemZoom()
+      this.itemZooms.set( key, zoom )
+    }
+    return zoom
+  }
+
+  /**
+   * 현재 이미지의 확대 상태입니다. 이미지가 없으면 emptyZoom 입니다.
+   */
+  currentItemZoom (): ItemZoom {
+    const item = this.state.data[ this.state.currentIndex ]
+    return item !== undefined ? this.itemZoom( this.keyOf( item, this.state.currentIndex ) ) : this.emptyZoom
+  }
+
+  /**
+   * 현재 이미지가 바뀌었으면 ZoomableView가 새 이미지의 값을 이어받았으므로 그에 맞춰 상태를 알립니다.
+   * rememberItemZoom이 아니거나 가장자리 너머로 끌어서 넘어왔으면 떠나는 이미지는 부드럽게 원래 크기로 돌아갑니다.
+   */
+  doZoomItemChange () {
+    const item = this.state.data[ this.state.currentIndex ]
+    const nextKey = item !== undefined ? this.keyOf( item, this.state.currentIndex ) : null
+    if ( nextKey === this.zoomKey )
+      return
+
+    const reset = !this.props.rememberItemZoom || this.pageHandOff
+    this.pageDrag = 0
+    this.pageHandOff = false
+    this.doClearTiles()
+
+    if ( this.zoomKey !== null && this.itemZooms.has( this.zoomKey ) && reset ) {
+      const prev = this.itemZoom( this.zoomKey )
+      prev.zoom = { ...IDENTITY_ZOOM }
+      const duration = this.zoomConfig().animationDuration
+      Animated.parallel( [
+        Animated.timing( prev.animatedZoom.scale, { toValue: 1, duration, useNativeDriver: true } ),
+        Animated.timing( prev.animatedZoom.translate, { toValue: { x: 0, y: 0 }, duration, useNativeDriver: true } )
+      ] ).start()
+    }
+
+    this.zoomKey = nextKey
+    this.doZoomingChange( this.getZoomState().scale !== 1 )
+    this.doZoomStateNotify()
+    // 확대 상태를 기억해둔 이미지로 돌아왔으면 조각도 다시 그림
+    this.doScheduleTiles()
+  }
+
+  async componentDidUpdate ( prevProps: SwiperViewProps<ItemT>, prevState: SwiperViewState<ItemT> ) {
+    if ( Boolean( prevProps.autoplay ) !== Boolean( this.props.autoplay ) ) {
+      // autoplay를 켜고 끄면 슬라이드쇼도 다시 시작하거나 멈춤
+      this.autoplayPaused = false
+      this.doScheduleAutoplay( this.autoplayConfig().interval )
+    }
+    if ( prevProps.width !== this.props.width || prevProps.height !== this.props.height ) {
+      // 주지 않은 쪽은 다시 그려진 뒤 onLayout에서 맞춰짐
+      this.doViewPortChange( {
+        width: this.props.width ?? this.viewPort.width,
+        height: this.props.height ?? this.viewPort.height
+      } )
+    }
+    if ( this.props.data !== undefined && prevProps.data !== this.props.data &&
+      this.props.data !== this.state.data ) {
+      // 부모가 data를 바꿨음
+      const newIndex = this.anchorIndex( this.state.data, this.props.data, RefreshStatus.ALL )
+      this.setState( { ...this.state, data: this.props.data, currentIndex: newIndex } )
+    }
+    if ( prevState.data !== this.state.data ) {
+      // 사라진 이미지의 크기, 확대 상태는 버림
+      // id가 없는 이미지는 index가 key라서, 같은 자리에 같은 이미지가 남은 경우만 유지함
+      const keys = new Set<string>()
+      this.state.data.forEach( ( item, index ) => {
+        if ( this.hasId( item ) || prevState.data[ index ] === item )
+          keys.add( this.keyOf( item, index ) )
+      } )
+      this.contentSizes.forEach( ( _, key ) => {
+        if ( !keys.has( key ) )
+          this.contentSizes.delete( key )
+      } )
+      this.itemZooms.forEach( ( _, key ) => {
+        if ( !keys.has( key ) )
+          this.itemZooms.delete( key )
+      } )
+    }
+    if ( prevState.data !== this.state.data || prevState.currentIndex !== this.state.currentIndex ) {
+      this.doZoomItemChange()
+      this.loadContentSize( this.state.currentIndex )
+      this.doLoadMore()
+      this.doPrefetch()
+    }
+    if ( this.props.index !== undefined && prevProps.index !== this.props.index &&
+      this.props.index !== this.state.currentIndex ) {
+      // controlled 모드에서 부모가 index를 바꿨음
+      this.goToIndex( this.props.index )
+    }
+    if ( prevState.currentIndex !== this.state.currentIndex ) {
+      this.props.onIndexChange?.( this.state.currentIndex, this.state.data[ this.state.currentIndex ] )
+      this.doAnnounceIndex()
+      this.doThumbnailScroll( true )
+    }
     if ( prevState.refreshing === null && this.state.refreshing !== null ) {
       const { newIndex, newData } = await this.props.onRefresh( this.state.refreshing, this.state.data, this.state.currentIndex )
       if ( newData.length === this.state.data.length ) {
-        this.flatList.current?.scrollToIndex( { index: newIndex, animated: false } )
+        this.doScrollToIndex( newIndex, false )
         this.setState( { ...this.state, refreshing: null, data: newData, currentIndex: newIndex } )
       } else {
         this.setState( { ...this.state, data: newData, currentIndex: newIndex } )
       }
     } else if ( prevState.refreshing !== null && this.state.refreshing === null ) {
+      // refresh 중에 무시된 controlled index가 있으면 맞춰줌
+      // onRefresh가 index를 바꿨다면 그쪽을 따릅니다
+      if ( this.props.index !== undefined && this.props.index !== this.state.currentIndex &&
+        prevState.currentIndex === this.state.currentIndex ) {
+        this.goToIndex( this.props.index, false )
+      }
+    }
+  }
+
+  /**
+   * onStartReached/onEndReached로 불러오는 중임을 해당 가장자리에 보여줍니다.
+   * @param status 
+   */
+  renderLoadingIndicator ( status: RefreshStatus ) {
+    const vertical = this.pageAxis() === "y"
+    return (
+      <View
+        pointerEvents="box-none"
+        style={ [
+          StyleSheet.absoluteFill,
+          {
+            flexDirection: vertical ? "column" : "row",
+            justifyContent: status === RefreshStatus.START ? "flex-start" : "flex-end",
+            alignItems: "center",
+          }
+        ] }
+      >
+        { this.props.renderLoadingIndicator !== undefined ?
+          this.props.renderLoadingIndicator( status ) :
+          <ActivityIndicator style={ { margin: 16 } } /> }
+      </View>
+    )
+  }
 
+  /**
+   * 확대가 멈춘 이미지 위에 원본 해상도의 조각을 겹쳐 그립니다.
+   */
+  renderTiles () {
+    if ( this.state.tiles.length === 0 )
+      return null
+    return (
+      <View pointerEvents="none" style={ [ StyleSheet.absoluteFill, { overflow: "hidden" } ] }>
+        { this.state.tiles.map( ( tile ) => (
+          <Image
+            key={ tile.key }
+            source={ { uri: tile.uri } }
+            style={ {
+              position: "absolute",
+              left: tile.left,
+              top: tile.top,
+              width: tile.width,
+              height: tile.height
+            } }
+          />
+        ) ) }
+      </View>
+    )
+  }
+
+  /**
+   * 기본 제공 페이지 표시를 그립니다.
+   * @param type 
+   */
+  renderPresetIndicator ( type: IndicatorType ) {
+    const count = this.state.data.length
+    if ( type === "counter" ) {
+      return (
+        <Text style={ { color: "white", fontSize: 14, margin: 8, textAlign: "center" } }>
+          { `${ this.state.currentIndex + 1 } / ${ count }` }
+        </Text>
+      )
     }
+    return (
+      <View style={ { flexDirection: "row", justifyContent: "center", margin: 8 } }>
+        { this.state.data.map( ( item, index ) => (
+          <View
+            key={ this.keyOf( item, index ) }
+            style={ {
+              width: 6,
+              height: 6,
+              borderRadius: 3,
+              marginHorizontal: 3,
+              backgroundColor: "white",
+              opacity: index === this.state.currentIndex ? 1 : 0.4
+            } }
+          />
+        ) ) }
+      </View>
+    )
   }
 
-  wrapRenderItem ( info: ListRenderItemInfo<ItemT> ) {
-    const itemView = this.props.renderItem( info )
+  /**
+   * 썸네일 한칸의 길이입니다. (크기 + 양옆 여백)
+   */
+  thumbnailLength (): number {
+    return ( this.props.thumbnailSize ?? THUMBNAIL_SIZE ) + THUMBNAIL_MARGIN * 2
+  }
+
+  /**
+   * 현재 이미지의 썸네일이 목록 가운데에 오도록 스크롤합니다.
+   * @param animated 
+   */
+  doThumbnailScroll ( animated: boolean ) {
+    if ( this.state.data[ this.state.currentIndex ] === undefined )
+      return
+    this.thumbnailList.current?.scrollToIndex( {
+      index: this.state.currentIndex,
+      viewPosition: 0.5,
+      animated
+    } )
+  }
+
+  /**
+   * 썸네일 한칸을 그립니다.
+   * renderThumbnail이 없으면 이미지 item만 그릴 수 있습니다.
+   * @param item 
+   * @param index 
+   */
+  renderThumbnail ( item: ItemT, index: number ) {
+    const size = this.props.thumbnailSize ?? THUMBNAIL_SIZE
+    const selected = index === this.state.currentIndex
+    let thumbnail: React.ReactElement | null = null
+    if ( this.props.renderThumbnail !== undefined ) {
+      thumbnail = this.props.renderThumbnail( item, index, selected )
+    } else if ( typeof item === "number" || this.isPhotoObject( item ) ) {
+      // 작은 칸이므로 thumbnailUri가 있으면 원본 대신 씀
+      const source = this.isPhotoObject( item ) && item.thumbnailUri !== undefined ? { uri: item.thumbnailUri } : item
+      thumbnail = <Image source={ source } style={ { width: size, height: size, resizeMode: "cover" } } />
+    } else if ( this.isMediaItem( item ) ) {
+      const media: MediaItem = item
+      if ( media.type === "video" && media.posterUri !== undefined )
+        thumbnail = <Image source={ { uri: media.posterUri } } style={ { width: size, height: size, resizeMode: "cover" } } />
+    }
     return (
-      <View style={ {
-        height: this.viewPort.height,
-        width: this.viewPort.width,
-        overflow: "hidden",
-        flex: 1,
-      } }
+      <TouchableOpacity
+        onPress={ () => this.goToIndex( index ) }
+        style={ {
+          width: size,
+          height: size,
+          margin: THUMBNAIL_MARGIN,
+          overflow: "hidden",
+          borderWidth: selected ? 2 : 0,
+          borderColor: "white",
+          opacity: selected ? 1 : 0.6
+        } }
       >
-        <Animated.View
-          style={ {
-            height: this.viewPort.height,
-            width: this.viewPort.width,
-            flex: 1,
-            alignItems: 'center',
-            justifyContent: 'center',
-            overflow: "hidden",
-            transform: info.index === this.state.currentIndex ? [
-              {
-                translateX: this.transformAnimated.x,
-              },
-              {
-                translateY: this.transformAnimated.y
-              },
-              {
-                scale: this.scaleAnimated
-              }
-            ] : undefined,
-          } }
-        >
-          { itemView }
-        </Animated.View>
-      </View >
+        { thumbnail }
+      </TouchableOpacity>
+    )
+  }
+
+  /**
+   * 아래쪽 썸네일 목록입니다. 본 목록과 같은 data와 key를 씁니다.
+   */
+  renderThumbnails () {
+    const length = this.thumbnailLength()
+    return (
+      <FlatList<ItemT>
+        ref={ this.thumbnailList }
+        horizontal={ true }
+        data={ this.state.data }
+        keyExtractor={ ( item: ItemT, index: number ) => this.keyOf( item, index ) }
+        renderItem={ ( { item, index } ) => this.renderThumbnail( item, index ) }
+        getItemLayout={ ( _, index ) => ( { length, offset: length * index, index } ) }
+        extraData={ this.state.currentIndex }
+        onLayout={ () => this.doThumbnailScroll( false ) }
+        showsHorizontalScrollIndicator={ false }
+        style={ { flexGrow: 0 } }
+      />
+    )
+  }
+
+  /**
+   * 이미지 위에 겹쳐 그리는 header, caption, indicator, thumbnails, footer 입니다.
+   * 제스쳐 뷰와 형제로 두어서 overlay 안의 버튼이 터치를 받을 수 있게 합니다.
+   */
+  renderOverlays () {
+    const item = this.state.data[ this.state.currentIndex ]
+    const hidden = !this.state.overlaysVisible || ( this.props.hideOverlaysWhileZoomed && this.state.zooming )
+    if ( item === undefined || hidden )
+      return null
+    const index = this.state.currentIndex
+    const indicator = this.props.renderIndicator
+    return (
+      <View pointerEvents="box-none" style={ [ StyleSheet.absoluteFill, { justifyContent: "space-between" } ] }>
+        <View pointerEvents="box-none">
+          { this.props.renderHeader?.( item, index ) }
+        </View>
+        <View pointerEvents="box-none">
+          { this.props.renderCaption?.( item, index ) }
+          { typeof indicator === "function" ?
+            indicator( index, this.state.data.length ) :
+            indicator !== undefined ? this.renderPresetIndicator( indicator ) : null }
+          { this.props.showThumbnails ? this.renderThumbnails() : null }
+          { this.props.renderFooter?.( item, index ) }
+        </View>
+      </View>
+    )
+  }
+
+  /**
+   * renderItem이 없을 때 이미지를 그립니다.
+   * @param item 
+   * @param index 
+   * @param listIndex FlatList 안의 index (loop 복제본 구분용)
+   */
+  renderDefaultItem ( item: ItemT, index: number, listIndex: number ) {
+    if ( this.isMediaItem( item ) ) {
+      const media: MediaItem = item
+      if ( media.type !== "image" )
+        return this.renderMediaItem( media, index, listIndex )
+    }
+    if ( typeof item !== "number" && !this.isPhotoObject( item ) )
+      return null
+    const renderLoading = this.props.renderImageLoading
+    const renderError = this.props.renderImageError
+    return (
+      <ProgressiveImage
+        source={ item }
+        thumbnailSource={ this.isPhotoObject( item ) && item.thumbnailUri !== undefined ?
+          { uri: item.thumbnailUri } : undefined }
+        renderLoading={ renderLoading !== undefined ? () => renderLoading( item, index ) : undefined }
+        renderError={ renderError !== undefined ? ( retry ) => renderError( item, index, retry ) : undefined }
+      />
+    )
+  }
+
+  /**
+   * 동영상과 custom item을 그립니다.
+   * renderVideo가 없으면 posterUri만 보여줍니다.
+   * loop 복제본은 원본과 index가 같으므로, 실제로 보이는 칸만 active가 되도록 FlatList 안의 index로 비교합니다.
+   * @param item 
+   * @param index 
+   * @param listIndex FlatList 안의 index
+   */
+  renderMediaItem ( item: VideoMediaItem | CustomMediaItem, index: number, listIndex: number ) {
+    const active = listIndex === this.listIndex( this.state.currentIndex )
+    if ( item.type === "custom" )
+      return this.props.renderCustomItem?.( item, index, active ) ?? null
+    if ( this.props.renderVideo !== undefined )
+      return this.props.renderVideo( item, index, active )
+    if ( item.posterUri === undefined )
+      return null
+    return <Image source={ { uri: item.posterUri } } style={ { width: "100%", height: "100%", resizeMode: "contain" } } />
+  }
+
+  wrapRenderItem ( listInfo: ListRenderItemInfo<ItemT> ) {
+    // loop 복제본도 원본과 같은 index, 같은 확대 상태를 씀
+    const info = { ...listInfo, index: this.logicalIndex( listInfo.index ) }
+    const itemView = this.props.renderItem !== undefined ?
+      this.props.renderItem( info ) :
+      this.renderDefaultItem( info.item, info.index, listInfo.index )
+    const zoom = this.itemZoom( this.keyOf( info.item, info.index ) )
+    // 제스쳐는 바깥의 ZoomableView가 받고, 여기서는 그 값대로 그리기만 함
+    return (
+      <ZoomableView
+        width={ this.viewPort.width }
+        height={ this.viewPort.height }
+        zoomConfig={ DRAW_ONLY_ZOOM_CONFIG }
+        animatedZoom={ zoom.animatedZoom }
+      >
+        { itemView }
+      </ZoomableView>
     )
   }
 
@@ -657,54 +1759,163 @@ export default class SwiperViewComponent<ItemT = LocalResource | PhotoObject> ex
     return p !== undefined && typeof p.id === "string";
   }
 
+  isPhotoObject(p: any): p is PhotoObject {
+    return p !== undefined && p !== null && typeof p.uri === "string" &&
+      ( p.type === undefined || p.type === "image" );
+  }
+
+  isMediaItem(p: any): p is MediaItem {
+    return p !== undefined && p !== null &&
+      ( p.type === "image" || p.type === "video" || p.type === "custom" );
+  }
+
+  keyOf ( item: ItemT, index: number ): string {
+    if ( this.hasId( item ) ) return item.id;
+    else return index.toString();
+  }
+
+  /**
+   * FlatList용 key 입니다. loop 복제본은 원본과 겹치지 않게 앞에 표시를 붙입니다.
+   * @param item 
+   * @param listIndex 
+   */
+  listKeyOf ( item: ItemT, listIndex: number ): string {
+    const key = this.keyOf( item, this.logicalIndex( listIndex ) )
+    if ( this.isLooping() && ( listIndex === 0 || listIndex === this.state.data.length + 1 ) )
+      return `loop:${ listIndex }:${ key }`
+    return key
+  }
+
+  /**
+   * 현재 이미지의 제스쳐를 받는 ZoomableView의 콜백입니다.
+   * 확대/이동은 ZoomableView가 하고, 여기서는 이미지별 상태 저장, 옆 이미지로 넘기기, 끌어서 닫기를 이어줍니다.
+   * @param current 현재 이미지의 확대 상태
+   */
+  zoomableHandlers ( current: ItemZoom ): ZoomableViewProps {
+    const onDoubleTap = this.props.onDoubleTap
+    const onLongPress = this.props.onLongPress
+    return {
+      onZoomStart: () => {
+        this.doZoomingChange( true )
+        // 두손가락 확대가 시작되기 전에 FlatList가 조금 움직였을 수 있음
+        if ( this.pageDrag === 0 )
+          this.doScrollToIndex( this.state.currentIndex, false )
+      },
+      onZoomChange: ( zoom ) => {
+        current.zoom = zoom
+        this.doClearTiles()
+        this.doZoomStateNotify()
+      },
+      onZoomEnd: () => this.doZoomingChange( false ),
+      onZoomSettle: () => this.doScheduleTiles(),
+      onTap: ( pos ) => this.doSingleTap( this.toImagePoint( pos ) ),
+      onDoubleTap: onDoubleTap !== undefined ? ( pos ) => this.doDoubleTap( pos ) : undefined,
+      onLongPress: onLongPress !== undefined ? ( pos ) => this.doLongPress( pos ) : undefined,
+      onEdgeOverflow: ( overflow ) => this.doPageDrag( overflow ),
+      onEdgeOverflowEnd: ( _, velocity ) => this.doPageDragEnd( velocity[ this.pageAxis() ] ),
+      shouldStartDrag: ( move ) => this.shouldStartDismiss( move ),
+      onDragMove: ( move ) => this.dismissAnimated.setValue( move[ this.crossAxis() ] ),
+      onDragEnd: ( velocity ) => this.doDismissEnd( velocity[ this.crossAxis() ] ),
+    }
+  }
+
   render (): JSX.Element {
+    const currentItem = this.state.data[ this.state.currentIndex ]
+    const current = this.currentItemZoom()
     return (
       <View style={ {
-        height: this.viewPort.height,
-        width: this.viewPort.width,
-        backgroundColor: this.props.backgroundColor
+        width: this.props.width ?? "100%",
+        height: this.props.height,
+        flex: this.props.height === undefined ? 1 : undefined,
       } }
-        { ...( this.gestureHandlers ) }
-        ref={ this.rootView }
-        onLayout={ () => {
-          this.rootView.current?.measure(
-            ( _x, _y, _width, _height, pageX, pageY ) => {
-              this.absolutePosition = {
-                x: pageX,
-                y: pageY
-              }
-            },
-          );
+        onLayout={ ( event ) => {
+          // 크기를 주지 않았으면 부모를 채운 크기가 viewPort가 됨
+          const { width, height } = event.nativeEvent.layout
+          if ( width > 0 && height > 0 ) {
+            this.doViewPortChange( { width, height } )
+          }
         } }
       >
-        <Text>{ this.state.currentIndex }</Text>
-        <FlatList<ItemT>
-          initialScrollIndex={ this.state.currentIndex }
-          getItemLayout={ ( _, index ) => ( {
-            length: this.viewPort.width,
-            offset: this.viewPort.width * index,
-            index
-          } ) }
-          pagingEnabled={ true }
-          scrollEnabled={ this.state.refreshing === null }
-          data={ this.state.data }
-          snapToAlignment={ "center" }
-          renderItem={ ( info: ListRenderItemInfo<ItemT> ) => this.wrapRenderItem( info ) }
-          horizontal={ true }
-          keyExtractor={ ( item: ItemT, index: number ) => {
-              if(this.hasId(item)) return item.id;
-              else return index.toString();
-          } }
-          ref={ this.flatList }
-          refreshing={ this.state.refreshing !== null }
-          { ...this.scrollHandlers }
-          onRefresh={ () => {
-            this.setState( { ...this.state, refreshing: RefreshStatus.ALL } )
-          } }
-          extraData={ this.state }
-          showsHorizontalScrollIndicator={ false }
-          showsVerticalScrollIndicator={ false }
-        />
+        <ZoomableView
+          ref={ this.zoomableView }
+          style={ StyleSheet.absoluteFill }
+          width={ this.viewPort.width }
+          height={ this.viewPort.height }
+          contentSize={ this.contentSize( this.state.currentIndex ) }
+          zoomConfig={ this.zoomConfig() }
+          animatedZoom={ current.animatedZoom }
+          initialZoom={ current.zoom }
+          transformChildren={ false }
+          { ...this.zoomableHandlers( current ) }
+        >
+          <View
+            ref={ this.gestureView }
+            style={ StyleSheet.absoluteFill }
+            { ...( this.touchHandlers ) }
+            { ...( this.webHandlers ) }
+            focusable={ true }
+          >
+            <Animated.View
+              pointerEvents="none"
+              style={ [
+                StyleSheet.absoluteFill,
+                {
+                  backgroundColor: this.props.backgroundColor,
+                  opacity: this.dismissAnimated.interpolate( {
+                    inputRange: [ -this.crossLength(), 0, this.crossLength() ],
+                    outputRange: [ 0, 1, 0 ]
+                  } )
+                }
+              ] }
+            />
+            { /* 스크린 리더용 요소는 목록 아래에 따로 둠. 목록을 감싸면 동영상 등 item 안의 버튼에 닿을 수 없음 */ }
+            <View
+              style={ StyleSheet.absoluteFill }
+              accessible={ true }
+              accessibilityRole="adjustable"
+              accessibilityLabel={ currentItem !== undefined ?
+                this.props.getItemAccessibilityLabel?.( currentItem, this.state.currentIndex ) : undefined }
+              accessibilityValue={ { text: `${ this.state.currentIndex + 1 } / ${ this.state.data.length }` } }
+              accessibilityActions={ this.accessibilityActions() }
+              onAccessibilityAction={ ( event ) => this.onAccessibilityAction( event ) }
+            />
+            <Animated.View style={ {
+              flex: 1,
+              transform: [
+                this.crossAxis() === "y" ? { translateY: this.dismissAnimated } : { translateX: this.dismissAnimated }
+              ]
+            } }>
+              <FlatList<ItemT>
+                initialScrollIndex={ this.listIndex( this.state.currentIndex ) }
+                getItemLayout={ ( _, index ) => ( {
+                  length: this.pageLength(),
+                  offset: this.pageLength() * index,
+                  index
+                } ) }
+                pagingEnabled={ true }
+                scrollEnabled={ this.state.refreshing === null }
+                data={ this.listData() }
+                snapToAlignment={ "center" }
+                renderItem={ ( info: ListRenderItemInfo<ItemT> ) => this.wrapRenderItem( info ) }
+                horizontal={ this.pageAxis() === "x" }
+                keyExtractor={ ( item: ItemT, index: number ) => this.listKeyOf( item, index ) }
+                ref={ this.flatList }
+                refreshing={ this.state.refreshing !== null }
+                { ...this.scrollHandlers }
+                scrollEventThrottle={ 16 }
+                onRefresh={ () => {
+                  this.setState( { ...this.state, refreshing: RefreshStatus.ALL } )
+                } }
+                extraData={ this.state }
+                showsHorizontalScrollIndicator={ false }
+                showsVerticalScrollIndicator={ false }
+              />
+            </Animated.View>
+            { this.renderTiles() }
+            { this.state.loading !== null ? this.renderLoadingIndicator( this.state.loading ) : null }
+          </View>
+        </ZoomableView>
+        { this.renderOverlays() }
       </View>
     );
   }